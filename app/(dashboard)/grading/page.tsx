@@ -2,42 +2,81 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { useToast } from "@/components/ui/use-toast"
 import { FileUploader } from "@/components/grading/file-uploader"
 import { RubricSelector } from "@/components/grading/rubric-selector"
 import { StudentPreview } from "@/components/grading/student-preview"
-import { saveGradingSession, fileToBase64 } from "@/lib/storage"
-import { initializeOCR, processStudentAnswers, processImage } from "@/lib/processing"
+import { ReviewQueue } from "@/components/grading/review-queue"
+import { OcrReview } from "@/components/grading/ocr-review"
+import { ExamEditor } from "@/components/grading/exam-editor"
+import {
+  GradingProgress,
+  applyProgressEvent,
+  createFileProgress,
+  resetUnfinishedProgress,
+  type FileProgress,
+} from "@/components/grading/grading-progress"
+import {
+  saveGradingSession,
+  saveStudentResult,
+  updateGradingSessionStatus,
+  getGradingSession,
+  fileToBase64,
+  base64ToFile,
+  type GradingSession,
+  type RubricSnapshot,
+} from "@/lib/storage"
+import {
+  initializeOCR,
+  recognizeSubmission,
+  processStudentAnswers,
+  processImage,
+  isGraded,
+  type GradingProgressEvent,
+  type StudentResult,
+} from "@/lib/processing"
+import { consistencyOptions, getGradingSettings } from "@/lib/settings"
+import { logAuditEvents, resultChangeEvents, sessionCreatedEvents } from "@/lib/audit"
+import { snapshotRubricText } from "@/lib/rubrics"
+import { createPauseGate, type PauseGate } from "@/lib/queue"
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, getLanguageOption, type GradingLanguage } from "@/lib/languages"
+import { totalExamPoints, type ExamQuestion } from "@/lib/exams"
+import { singleFileGroups, toSubmissions, type FileGroups } from "@/lib/submissions"
 import { useAuth } from "@/contexts/auth-context"
 
 export default function GradingPage() {
   const [activeTab, setActiveTab] = useState("upload")
   const [subject, setSubject] = useState<string | null>(null)
   const [sessionName, setSessionName] = useState("")
+  const [language, setLanguage] = useState<GradingLanguage>(DEFAULT_LANGUAGE)
   const [studentFiles, setStudentFiles] = useState<File[]>([])
-  const [rubricText, setRubricText] = useState<string>("")
+  const [studentGroups, setStudentGroups] = useState<FileGroups>([])
+  const studentSubmissions = useMemo(() => toSubmissions(studentFiles, studentGroups), [studentFiles, studentGroups])
+  const [ocrTexts, setOcrTexts] = useState<Array<string | undefined>>([])
+  const [ocrConfidences, setOcrConfidences] = useState<Array<number | undefined>>([])
+  const [isExtracting, setIsExtracting] = useState(false)
+  const [rubric, setRubric] = useState<RubricSnapshot | null>(null)
+  const [examQuestions, setExamQuestions] = useState<ExamQuestion[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showPreview, setShowPreview] = useState(false)
-  const [gradingResults, setGradingResults] = useState<Array<{
-    id: string;
-    name: string;
-    score: number;
-    feedback: string;
-    criteria: Array<{
-      name: string;
-      score: number;
-      maxScore: number;
-      feedback: string;
-    }>;
-  }> | null>(null)
+  const [gradingResults, setGradingResults] = useState<StudentResult[] | null>(null)
+  const [savedSession, setSavedSession] = useState<GradingSession | null>(null)
+  const [progress, setProgress] = useState<FileProgress[]>([])
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null)
+  const [resumeSession, setResumeSession] = useState<GradingSession | null>(null)
+  const [isPaused, setIsPaused] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const pauseGateRef = useRef<PauseGate | null>(null)
 
   const router = useRouter()
   const { toast } = useToast()
@@ -49,12 +88,79 @@ export default function GradingPage() {
     }
   }, [user, loading, router])
 
+  // Load an interrupted session when opened from the history page with ?resume=<id>
+  useEffect(() => {
+    if (!user) return
+    const resumeId = new URLSearchParams(window.location.search).get("resume")
+    if (!resumeId) return
+
+    getGradingSession(resumeId).then((session) => {
+      const resumable = session?.status === "in_progress" || session?.status === "cancelled"
+      if (!session || session.userId !== user.id || !resumable) {
+        toast({
+          title: "Session not found",
+          description: "This grading session cannot be resumed",
+          variant: "destructive",
+        })
+        return
+      }
+      setResumeSession(session)
+      setSessionName(session.sessionName)
+      setLanguage(session.language ?? DEFAULT_LANGUAGE)
+      setSubject(session.subject)
+      // Sessions saved before rubric snapshots only kept the rubric text
+      setRubric(session.rubric ?? snapshotRubricText(session.rubricText || "", "Session rubric", session.subject))
+      setExamQuestions(session.exam?.questions ?? [])
+      setStudentFiles(
+        session.studentFiles.map((base64, index) =>
+          base64ToFile(base64, session.studentFileNames?.[index] || `student_answer_${index + 1}`)
+        )
+      )
+      setStudentGroups(session.studentGroups ?? singleFileGroups(session.studentFiles.length))
+    })
+  }, [user])
+
+  // Corrections belong to a specific set of submissions, so regrouping starts over
+  useEffect(() => {
+    setOcrTexts([])
+    setOcrConfidences([])
+  }, [studentSubmissions])
+
   const handleStudentFilesChange = (files: File[]) => {
     setStudentFiles(files)
   }
 
-  const handleRubricChange = (newRubricText: string) => {
-    setRubricText(newRubricText)
+  const handleExtractText = async () => {
+    setIsExtracting(true)
+    try {
+      await initializeOCR(language)
+      const texts: Array<string | undefined> = []
+      const confidences: Array<number | undefined> = []
+      for (const submission of studentSubmissions) {
+        const { text, confidence } = await recognizeSubmission(submission.files, language)
+        texts.push(text)
+        confidences.push(confidence)
+        setOcrTexts([...texts])
+        setOcrConfidences([...confidences])
+      }
+    } catch (error) {
+      console.error("OCR error:", error)
+      toast({
+        title: "Error",
+        description: "There was an error extracting text from the files",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExtracting(false)
+    }
+  }
+
+  // Corrected text is as good as the teacher made it, so its OCR confidence no longer applies
+  const handleOcrTextsChange = (texts: Array<string | undefined>) => {
+    setOcrConfidences((confidences) =>
+      confidences.map((confidence, index) => (texts[index] === ocrTexts[index] ? confidence : undefined))
+    )
+    setOcrTexts(texts)
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -91,33 +197,121 @@ export default function GradingPage() {
     handleStartGrading()
   }
 
+  const handleProgress = (event: GradingProgressEvent) => {
+    if (event.type === "rate_limited") {
+      setRateLimitedUntil(Date.now() + event.delayMs)
+      return
+    }
+    setProgress((prev) => applyProgressEvent(prev, event))
+  }
+
+  // Grades every file not yet in session.results, saving each student as soon as it finishes
+  const runGrading = async (session: GradingSession, files: File[], answerKey?: File) => {
+    if (!user) return
+
+    const existingResults: StudentResult[] = session.results
+    const sessionRubric = session.rubric ?? snapshotRubricText(session.rubricText || "", "Session rubric", session.subject)
+    const submissions = toSubmissions(files, session.studentGroups)
+    const { mode, concurrency, ocr, consistency, ...providerSettings } = getGradingSettings(user.id)
+    if (ocr) {
+      await initializeOCR(session.language)
+    }
+    setProgress(
+      existingResults.reduce(
+        (list, result) => applyProgressEvent(list, { type: "file_completed", fileIndex: result.fileIndex ?? 0, result }),
+        createFileProgress(submissions, sessionRubric.criteria.length)
+      )
+    )
+
+    await logAuditEvents(session.id, [{
+      type: "grading_started",
+      data: {
+        ...providerSettings,
+        mode,
+        concurrency,
+        ocr,
+        consistency: consistencyOptions(consistency),
+        language: session.language,
+        alreadyGraded: existingResults.length,
+      },
+    }])
+
+    const abortController = new AbortController()
+    const pauseGate = createPauseGate()
+    abortControllerRef.current = abortController
+    pauseGateRef.current = pauseGate
+    setIsPaused(false)
+
+    const newResults = await processStudentAnswers(submissions, sessionRubric, answerKey, {
+      subject: session.subject,
+      providerSettings,
+      mode,
+      concurrency,
+      onProgress: handleProgress,
+      onStudentGraded: (result) => saveStudentResult(session.id, result),
+      skipFileIndexes: existingResults.map((result) => result.fileIndex ?? 0),
+      signal: abortController.signal,
+      pauseGate,
+      ocr,
+      ocrTexts,
+      ocrConfidences,
+      language: session.language,
+      exam: session.exam,
+      consistency: consistencyOptions(consistency),
+      onAudit: (event) => logAuditEvents(session.id, [event]),
+    }).finally(() => {
+      abortControllerRef.current = null
+      pauseGateRef.current = null
+      setIsPaused(false)
+    })
+
+    const results = [...existingResults, ...newResults].sort((a, b) => (a.fileIndex ?? 0) - (b.fileIndex ?? 0))
+    const cancelled = abortController.signal.aborted
+    const status = cancelled ? "cancelled" : "completed"
+    await updateGradingSessionStatus(session.id, status)
+    await logAuditEvents(session.id, [{ type: "grading_finished", data: { status, graded: results.length } }])
+    setSavedSession({ ...session, results, status })
+    setGradingResults(results)
+    setResumeSession(cancelled ? { ...session, results, status } : null)
+
+    if (cancelled) {
+      setProgress((prev) => resetUnfinishedProgress(prev))
+      toast({
+        title: "Grading cancelled",
+        description: `${results.length} of ${submissions.length} student(s) were graded. The rest were left ungraded and can be resumed later.`,
+      })
+      if (results.length === 0) return
+    } else {
+      const flaggedCount = results.filter((result) => !isGraded(result)).length
+      toast({
+        title: "Grading completed",
+        description: flaggedCount > 0
+          ? `${flaggedCount} student(s) need review before their scores count`
+          : "Your files have been processed and graded",
+      })
+    }
+
+    // Show results
+    setShowPreview(true)
+  }
+
   const handleStartGrading = async () => {
     if (!user) return
     setIsSubmitting(true)
 
     try {
-      // Initialize OCR
-      await initializeOCR()
-
-      // Get rubric text - now using the stored rubricText
-      const currentRubricText = rubricText
+      // Questions without points cannot be weighted, so they are left out
+      const gradedQuestions = examQuestions.filter((question) => question.maxScore > 0)
 
-      if (!currentRubricText) {
+      if (!rubric || rubric.criteria.length === 0) {
         toast({
           title: "Rubric required",
-          description: "Please either upload a rubric or select criteria",
+          description: "Please select a rubric with at least one criterion",
           variant: "destructive",
         })
         return
       }
 
-      // Process student answers
-      const results = await processStudentAnswers(studentFiles, currentRubricText)
-      setGradingResults(results)
-
-      // Create grading session
-      const sessionId = `session-${Date.now()}`
-      
       // Ensure subject is not null
       if (!subject) {
         toast({
@@ -127,35 +321,56 @@ export default function GradingPage() {
         })
         return
       }
-      
-      const session = {
-        id: sessionId,
+
+      // Create the grading session up front so results can be saved as they arrive
+      const session: GradingSession = {
+        id: `session-${Date.now()}`,
         userId: user.id,
         subject, // Now we know subject is not null
         sessionName,
         studentFiles: await Promise.all(studentFiles.map(file => fileToBase64(file))),
-        rubricText: currentRubricText,
+        studentFileNames: studentFiles.map(file => file.name),
+        studentGroups,
+        language,
+        rubric: { ...rubric, capturedAt: new Date().toISOString() },
+        exam: gradedQuestions.length > 0 ? { questions: gradedQuestions } : undefined,
         rubricFile: null,
         useTemplateRubric: false,
-        results,
+        results: [],
+        status: "in_progress",
         createdAt: new Date().toISOString(),
       }
 
       // Save to IndexedDB
       await saveGradingSession(session)
-
+      await logAuditEvents(session.id, sessionCreatedEvents(session))
+      await runGrading(session, studentFiles)
+    } catch (error) {
+      console.error("Grading error:", error)
       toast({
-        title: "Grading completed",
-        description: "Your files have been processed and graded",
+        title: "Error",
+        description: "There was an error processing the files",
+        variant: "destructive",
       })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleResumeGrading = async () => {
+    if (!resumeSession) return
+    setIsSubmitting(true)
 
-      // Show results
-      setShowPreview(true)
+    try {
+      const answerKey = resumeSession.answerKeyFile
+        ? base64ToFile(resumeSession.answerKeyFile, "answer-key")
+        : undefined
+      await runGrading(resumeSession, studentFiles, answerKey)
     } catch (error) {
       console.error("Grading error:", error)
       toast({
         title: "Error",
-        description: "There was an error processing the files",
+        description: "There was an error resuming the grading session",
         variant: "destructive",
       })
     } finally {
@@ -163,6 +378,33 @@ export default function GradingPage() {
     }
   }
 
+  const ocrEnabled = user ? getGradingSettings(user.id).ocr : false
+
+  const handlePause = () => {
+    pauseGateRef.current?.pause()
+    setIsPaused(true)
+  }
+
+  const handleResume = () => {
+    pauseGateRef.current?.resume()
+    setIsPaused(false)
+  }
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleReviewChange = async (updatedResults: StudentResult[]) => {
+    const previousResults = gradingResults ?? []
+    setGradingResults(updatedResults)
+    if (savedSession) {
+      const updatedSession = { ...savedSession, results: updatedResults }
+      setSavedSession(updatedSession)
+      await saveGradingSession(updatedSession)
+      await logAuditEvents(savedSession.id, resultChangeEvents(previousResults, updatedResults, user?.name ?? "Teacher"))
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex h-screen w-full items-center justify-center">
@@ -191,6 +433,24 @@ export default function GradingPage() {
         <p className="text-muted-foreground">Upload student answers and select a rubric to start grading</p>
       </header>
 
+      {resumeSession && (
+        <Card className="mb-6 border-primary">
+          <CardHeader>
+            <CardTitle>Resume Interrupted Session</CardTitle>
+            <CardDescription>
+              {resumeSession.sessionName}: {resumeSession.results.length} of{" "}
+              {(resumeSession.studentGroups ?? resumeSession.studentFiles).length} student(s)
+              were graded before the session stopped
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button type="button" onClick={handleResumeGrading} disabled={isSubmitting} className="w-full">
+              {isSubmitting ? "Processing..." : "Resume Grading"}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
       <form onSubmit={handleSubmit}>
         <div className="grid gap-6 md:grid-cols-7">
           <div className="md:col-span-5">
@@ -218,6 +478,25 @@ export default function GradingPage() {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="session-language">Language</Label>
+                      <Select value={language} onValueChange={(value) => setLanguage(value as GradingLanguage)}>
+                        <SelectTrigger id="session-language">
+                          <SelectValue placeholder="Select a language" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LANGUAGE_OPTIONS.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-muted-foreground">
+                        Used to read handwriting with OCR and for the language of the feedback
+                      </p>
+                    </div>
+
                     <div className="space-y-2">
                       <Label>Subject</Label>
                       <RadioGroup value={subject || ""} onValueChange={setSubject} className="grid grid-cols-2 gap-4">
@@ -235,23 +514,30 @@ export default function GradingPage() {
                 <Card>
                   <CardHeader>
                     <CardTitle>Student Answer Files</CardTitle>
-                    <CardDescription>Upload image files containing student exam answers</CardDescription>
+                    <CardDescription>Upload images or PDFs of student exam answers; every page of a PDF is graded together as one student</CardDescription>
                   </CardHeader>
                   <CardContent>
                     <FileUploader
-                      accept=".jpg,.jpeg,.png"
+                      accept=".pdf,.jpg,.jpeg,.png"
                       multiple={true}
                       onChange={handleStudentFilesChange}
                       maxFiles={30}
+                      groupable={true}
+                      onGroupsChange={setStudentGroups}
                     />
-                    {studentFiles.length > 0 && (
-                      <div className="mt-4">
-                        <p className="text-sm font-medium">{studentFiles.length} file(s) selected</p>
-                      </div>
-                    )}
                   </CardContent>
                 </Card>
 
+                {ocrEnabled && studentSubmissions.length > 0 && (
+                  <OcrReview
+                    submissions={studentSubmissions}
+                    texts={ocrTexts}
+                    isExtracting={isExtracting}
+                    onExtract={handleExtractText}
+                    onChange={handleOcrTextsChange}
+                  />
+                )}
+
                 <Button
                   type="button"
                   onClick={() => setActiveTab("rubric")}
@@ -266,18 +552,21 @@ export default function GradingPage() {
                 <Card>
                   <CardHeader>
                     <CardTitle>Grading Rubric</CardTitle>
-                    <CardDescription>Select a template rubric for grading</CardDescription>
+                    <CardDescription>Select one of your rubrics or a template for grading</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     {subject && (
-                      <RubricSelector 
-                        subject={subject} 
-                        onRubricChange={handleRubricChange}
+                      <RubricSelector
+                        subject={subject}
+                        rubric={rubric}
+                        onRubricChange={setRubric}
                       />
                     )}
                   </CardContent>
                 </Card>
 
+                <ExamEditor questions={examQuestions} onChange={setExamQuestions} />
+
                 <div className="flex gap-4">
                   <Button type="button" variant="outline" onClick={() => setActiveTab("upload")} className="flex-1">
                     Back
@@ -305,6 +594,10 @@ export default function GradingPage() {
                   <h3 className="text-sm font-medium text-muted-foreground">Session Name</h3>
                   <p className="font-medium">{sessionName || "Not specified"}</p>
                 </div>
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground">Language</h3>
+                  <p className="font-medium">{getLanguageOption(language).name}</p>
+                </div>
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Subject</h3>
                   <p className="font-medium">
@@ -313,12 +606,22 @@ export default function GradingPage() {
                 </div>
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Student Files</h3>
-                  <p className="font-medium">{studentFiles.length} file(s)</p>
+                  <p className="font-medium">
+                    {studentGroups.length} student(s), {studentFiles.length} file(s)
+                  </p>
                 </div>
                 <div>
                   <h3 className="text-sm font-medium text-muted-foreground">Rubric</h3>
                   <p className="font-medium">
-                    {rubricText ? "Custom rubric" : "Template rubric"}
+                    {rubric ? rubric.name : "Not selected"}
+                  </p>
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground">Exam</h3>
+                  <p className="font-medium">
+                    {examQuestions.length > 0
+                      ? `${examQuestions.length} question(s), ${totalExamPoints({ questions: examQuestions })} points`
+                      : "Whole paper"}
                   </p>
                 </div>
               </CardContent>
@@ -338,14 +641,46 @@ export default function GradingPage() {
         </div>
       </form>
 
+      {progress.length > 0 && (
+        <div className="mt-6">
+          <GradingProgress
+            progress={progress}
+            rateLimitedUntil={rateLimitedUntil}
+            isRunning={isSubmitting}
+            isPaused={isPaused}
+            onPause={handlePause}
+            onResume={handleResume}
+            onCancel={handleCancel}
+          />
+        </div>
+      )}
+
+      {savedSession && !isSubmitting && (gradingResults?.length ?? 0) > 0 && (
+        <div className="mt-6 flex justify-end">
+          <Button variant="outline" asChild>
+            <Link href={`/grading/results/${savedSession.id}`}>View Full Results</Link>
+          </Button>
+        </div>
+      )}
+
+      {gradingResults?.some((result) => !isGraded(result)) && (
+        <div className="mt-6">
+          <ReviewQueue results={gradingResults} onChange={handleReviewChange} />
+        </div>
+      )}
+
       {/* Modified StudentPreview with results */}
       {studentFiles.length > 0 && (
         <StudentPreview
-          files={studentFiles}
+          submissions={studentSubmissions}
           isOpen={showPreview}
           onClose={() => setShowPreview(false)}
           gradingResults={gradingResults}
           showResults={!!gradingResults}
+          onResultChange={(result) =>
+            handleReviewChange((gradingResults ?? []).map((existing) => (existing.id === result.id ? result : existing)))
+          }
+          teacherName={user.name}
         />
       )}
     </div>
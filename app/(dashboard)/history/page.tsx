@@ -7,12 +7,24 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Eye, Download, Trash2, Search, FileText } from "lucide-react"
-import { getAllGradingSessions, deleteGradingSession } from "@/lib/storage"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Eye, Download, Trash2, Search, FileText, AlertTriangle, PlayCircle, ScrollText } from "lucide-react"
+import {
+  getAllGradingSessions,
+  deleteGradingSession,
+  saveGradingSession,
+  type GradingSessionStatus,
+} from "@/lib/storage"
 import { useToast } from "@/components/ui/use-toast"
 import { useAuth } from "@/contexts/auth-context"
 import { useRouter } from "next/navigation"
 import { StudentPreview } from "@/components/grading/student-preview"
+import { ReviewQueue } from "@/components/grading/review-queue"
+import { AuditLog } from "@/components/grading/audit-log"
+import { logAuditEvents, resultChangeEvents } from "@/lib/audit"
+import { hasLowConfidence, isGraded, isModerated, type StudentResult } from "@/lib/processing"
+import { toSubmissions, type FileGroups, type StudentSubmission } from "@/lib/submissions"
 
 interface GradingSession {
   id: string
@@ -20,18 +32,12 @@ interface GradingSession {
   subject: string
   sessionName: string
   studentFiles: string[]
-  results: Array<{
-    id: string
-    name: string
-    score: number
-    feedback: string
-    criteria: Array<{
-      name: string
-      score: number
-      maxScore: number
-      feedback: string
-    }>
-  }>
+  studentFileNames?: string[]
+  studentGroups?: FileGroups
+  rubricFile: string | null
+  useTemplateRubric: boolean
+  results: StudentResult[]
+  status?: GradingSessionStatus
   createdAt: string
 }
 
@@ -40,8 +46,10 @@ export default function HistoryPage() {
   const [subjectFilter, setSubjectFilter] = useState("all")
   const [sessions, setSessions] = useState<GradingSession[]>([])
   const [previewSession, setPreviewSession] = useState<GradingSession | null>(null)
-  const [previewFiles, setPreviewFiles] = useState<File[]>([])
+  const [previewSubmissions, setPreviewSubmissions] = useState<StudentSubmission[]>([])
   const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+  const [reviewSession, setReviewSession] = useState<GradingSession | null>(null)
+  const [auditSession, setAuditSession] = useState<GradingSession | null>(null)
   const { toast } = useToast()
   const { user, loading } = useAuth()
   const router = useRouter()
@@ -114,11 +122,12 @@ export default function HistoryPage() {
           const blob = new Blob([ab], { type: mimeString });
           
           // Create a File object
-          return new File([blob], `student_answer_${index + 1}.${fileExtension}`, { type: mimeString });
+          const fileName = session.studentFileNames?.[index] || `student_answer_${index + 1}.${fileExtension}`;
+          return new File([blob], fileName, { type: mimeString });
         })
       );
       
-      setPreviewFiles(files);
+      setPreviewSubmissions(toSubmissions(files, session.studentGroups));
       setPreviewSession(session);
       setIsPreviewOpen(true);
     } catch (error) {
@@ -138,10 +147,64 @@ export default function HistoryPage() {
     return matchesSearch && matchesSubject
   })
 
+  // Results flagged for review have no trustworthy score yet, so they stay out of the average
   const calculateAverageScore = (session: GradingSession) => {
-    if (!session.results || session.results.length === 0) return 0
-    const totalScore = session.results.reduce((sum, result) => sum + result.score, 0)
-    return totalScore / session.results.length
+    const gradedResults = (session.results || []).filter(isGraded)
+    if (gradedResults.length === 0) return 0
+    const totalScore = gradedResults.reduce((sum, result) => sum + result.score, 0)
+    return totalScore / gradedResults.length
+  }
+
+  const countNeedsReview = (session: GradingSession) => {
+    return (session.results || []).filter((result) => !isGraded(result)).length
+  }
+
+  const countLowConfidence = (session: GradingSession) => {
+    return (session.results || []).filter(hasLowConfidence).length
+  }
+
+  const handleOverride = async (result: StudentResult) => {
+    if (!previewSession) return
+
+    try {
+      const updatedSession = {
+        ...previewSession,
+        results: previewSession.results.map((existing) => (existing.id === result.id ? result : existing)),
+      }
+      await saveGradingSession(updatedSession)
+      await logAuditEvents(
+        updatedSession.id,
+        resultChangeEvents(previewSession.results, updatedSession.results, user?.name ?? "Teacher")
+      )
+      setPreviewSession(updatedSession)
+      loadSessions()
+    } catch (error) {
+      console.error("Error saving override:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save the changed score",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReviewChange = async (results: StudentResult[]) => {
+    if (!reviewSession) return
+
+    try {
+      const updatedSession = { ...reviewSession, results }
+      await saveGradingSession(updatedSession)
+      await logAuditEvents(updatedSession.id, resultChangeEvents(reviewSession.results, results, user?.name ?? "Teacher"))
+      setReviewSession(updatedSession)
+      loadSessions()
+    } catch (error) {
+      console.error("Error saving review:", error)
+      toast({
+        title: "Error",
+        description: "Failed to save the manual score",
+        variant: "destructive",
+      })
+    }
   }
 
   if (loading) {
@@ -214,19 +277,68 @@ export default function HistoryPage() {
               <TableBody>
                 {filteredSessions.map((session) => (
                   <TableRow key={session.id}>
-                    <TableCell className="font-medium">{session.sessionName}</TableCell>
+                    <TableCell className="font-medium">
+                      {session.sessionName}
+                      {session.status === "in_progress" && (
+                        <Badge variant="outline" className="ml-2 border-blue-300 text-blue-700">
+                          In progress
+                        </Badge>
+                      )}
+                      {session.status === "cancelled" && (
+                        <Badge variant="outline" className="ml-2">
+                          Cancelled
+                        </Badge>
+                      )}
+                      {countNeedsReview(session) > 0 && (
+                        <Badge variant="outline" className="ml-2 border-orange-300 text-orange-700">
+                          {countNeedsReview(session)} need review
+                        </Badge>
+                      )}
+                      {countLowConfidence(session) > 0 && (
+                        <Badge variant="outline" className="ml-2 border-yellow-300 text-yellow-700">
+                          {countLowConfidence(session)} low confidence
+                        </Badge>
+                      )}
+                      {(session.results || []).some(isModerated) && (
+                        <Badge variant="outline" className="ml-2 border-blue-300 text-blue-700">
+                          Moderated
+                        </Badge>
+                      )}
+                    </TableCell>
                     <TableCell>{session.subject}</TableCell>
                     <TableCell>{new Date(session.createdAt).toLocaleDateString()}</TableCell>
-                    <TableCell className="text-right">{session.results?.length || 0}</TableCell>
+                    <TableCell className="text-right">
+                      {session.status === "in_progress" || session.status === "cancelled"
+                        ? `${session.results?.length || 0} / ${(session.studentGroups ?? session.studentFiles).length}`
+                        : session.results?.length || 0}
+                    </TableCell>
                     <TableCell className="text-right">{calculateAverageScore(session).toFixed(1)}%</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-1">
+                        {(session.status === "in_progress" || session.status === "cancelled") && (
+                          <Button variant="ghost" size="icon" asChild>
+                            <Link href={`/grading?resume=${session.id}`}>
+                              <PlayCircle className="h-4 w-4 text-blue-600" />
+                              <span className="sr-only">Resume grading</span>
+                            </Link>
+                          </Button>
+                        )}
                         <Button variant="ghost" size="icon" asChild>
                           <Link href={`/grading/results/${session.id}`}>
                             <Eye className="h-4 w-4" />
                             <span className="sr-only">View</span>
                           </Link>
                         </Button>
+                        {countNeedsReview(session) > 0 && (
+                          <Button variant="ghost" size="icon" onClick={() => setReviewSession(session)}>
+                            <AlertTriangle className="h-4 w-4 text-orange-600" />
+                            <span className="sr-only">Review</span>
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => setAuditSession(session)}>
+                          <ScrollText className="h-4 w-4" />
+                          <span className="sr-only">Audit log</span>
+                        </Button>
                         <Button 
                           variant="ghost" 
                           size="icon" 
@@ -284,14 +396,35 @@ export default function HistoryPage() {
         </CardContent>
       </Card>
 
+      {/* Review Queue Dialog */}
+      <Dialog open={!!reviewSession} onOpenChange={(open) => !open && setReviewSession(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Review - {reviewSession?.sessionName}</DialogTitle>
+          </DialogHeader>
+          {reviewSession && <ReviewQueue results={reviewSession.results} onChange={handleReviewChange} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!auditSession} onOpenChange={(open) => !open && setAuditSession(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Audit Log - {auditSession?.sessionName}</DialogTitle>
+          </DialogHeader>
+          {auditSession && <AuditLog sessionId={auditSession.id} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Student Preview Dialog */}
       {previewSession && (
         <StudentPreview
-          files={previewFiles}
+          submissions={previewSubmissions}
           isOpen={isPreviewOpen}
           onClose={() => setIsPreviewOpen(false)}
           gradingResults={previewSession.results}
           showResults={true}
+          onResultChange={handleOverride}
+          teacherName={user?.name}
         />
       )}
     </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -8,8 +8,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FileUploader } from '@/components/grading/file-uploader';
 import { StudentPreview } from '@/components/grading/student-preview';
-import { processStudentAnswers } from '@/lib/processing';
-import { Rubric, getAllRubrics, saveGradingSession, fileToBase64 } from '@/lib/storage';
+import { ReviewQueue } from '@/components/grading/review-queue';
+import { GradingProgress, applyProgressEvent, createFileProgress, FileProgress } from '@/components/grading/grading-progress';
+import { Badge } from '@/components/ui/badge';
+import { processStudentAnswers, isGraded, GradingProgressEvent, StudentResult } from '@/lib/processing';
+import { DEFAULT_GRADING_SETTINGS, consistencyOptions, getGradingSettings } from '@/lib/settings';
+import { logAuditEvents, resultChangeEvents, sessionCreatedEvents } from '@/lib/audit';
+import { snapshotRubric } from '@/lib/rubrics';
+import {
+  Rubric,
+  GradingSession,
+  getAllRubrics,
+  saveGradingSession,
+  saveStudentResult,
+  updateGradingSessionStatus,
+  fileToBase64,
+} from '@/lib/storage';
+import { toSubmissions, FileGroups } from '@/lib/submissions';
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, GradingLanguage } from '@/lib/languages';
 import { toast } from 'sonner';
 import { Upload, FileText, CheckCircle2, Key, History } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
@@ -20,11 +36,17 @@ export default function PushAndCheckPage() {
   const [selectedRubric, setSelectedRubric] = useState<Rubric | null>(null);
   const [rubrics, setRubrics] = useState<Rubric[]>([]);
   const [files, setFiles] = useState<File[]>([]);
+  const [fileGroups, setFileGroups] = useState<FileGroups>([]);
+  const submissions = useMemo(() => toSubmissions(files, fileGroups), [files, fileGroups]);
   const [answerKey, setAnswerKey] = useState<File | null>(null);
-  const [results, setResults] = useState<any[]>([]);
+  const [results, setResults] = useState<StudentResult[]>([]);
+  const [savedSession, setSavedSession] = useState<GradingSession | null>(null);
+  const [progress, setProgress] = useState<FileProgress[]>([]);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [sessionName, setSessionName] = useState("");
+  const [language, setLanguage] = useState<GradingLanguage>(DEFAULT_LANGUAGE);
   const { user } = useAuth();
   const router = useRouter();
 
@@ -49,6 +71,14 @@ export default function PushAndCheckPage() {
     }
   };
 
+  const handleProgress = (event: GradingProgressEvent) => {
+    if (event.type === 'rate_limited') {
+      setRateLimitedUntil(Date.now() + event.delayMs);
+      return;
+    }
+    setProgress(prev => applyProgressEvent(prev, event));
+  };
+
   const handleProcessFiles = async () => {
     if (!selectedRubric) {
       toast.error('Please select a rubric first');
@@ -72,25 +102,60 @@ export default function PushAndCheckPage() {
 
     setIsProcessing(true);
     try {
-      const gradingResults = await processStudentAnswers(files, selectedRubric.content, answerKey);
+      const rubric = snapshotRubric(selectedRubric);
+      // Create the session before grading so each student is saved as soon as it finishes
+      const session: GradingSession | null = user ? {
+        id: `session-${Date.now()}`,
+        userId: user.id,
+        subject: selectedRubric.subject,
+        sessionName,
+        studentFiles: await Promise.all(files.map(file => fileToBase64(file))),
+        studentFileNames: files.map(file => file.name),
+        studentGroups: fileGroups,
+        language,
+        rubricFile: null,
+        rubric,
+        answerKeyFile: await fileToBase64(answerKey),
+        useTemplateRubric: false,
+        results: [],
+        status: 'in_progress',
+        createdAt: new Date().toISOString(),
+      } : null;
+      const { mode, concurrency, ocr, consistency, ...providerSettings } = user ? getGradingSettings(user.id) : DEFAULT_GRADING_SETTINGS;
+      if (session) {
+        await saveGradingSession(session);
+        await logAuditEvents(session.id, [
+          ...sessionCreatedEvents(session),
+          {
+            type: 'grading_started',
+            data: { ...providerSettings, mode, concurrency, ocr, consistency: consistencyOptions(consistency), language, alreadyGraded: 0 }
+          }
+        ]);
+      }
+
+      setProgress(createFileProgress(submissions, rubric.criteria.length));
+      const gradingResults = await processStudentAnswers(submissions, rubric, answerKey, {
+        subject: selectedRubric.subject,
+        providerSettings,
+        mode,
+        concurrency,
+        onProgress: handleProgress,
+        ocr,
+        language,
+        consistency: consistencyOptions(consistency),
+        onStudentGraded: session ? (result) => saveStudentResult(session.id, result) : undefined,
+        onAudit: session ? (event) => logAuditEvents(session.id, [event]) : undefined,
+      });
+      gradingResults.sort((a, b) => (a.fileIndex ?? 0) - (b.fileIndex ?? 0));
       setResults(gradingResults);
       
-      // Save to history
-      if (user) {
-        const sessionId = `session-${Date.now()}`;
-        const session = {
-          id: sessionId,
-          userId: user.id,
-          subject: selectedRubric.subject,
-          sessionName,
-          studentFiles: await Promise.all(files.map(file => fileToBase64(file))),
-          rubricFile: null,
-          useTemplateRubric: false,
-          results: gradingResults,
-          createdAt: new Date().toISOString(),
-        };
-        
-        await saveGradingSession(session);
+      // Mark the history entry as finished
+      if (session) {
+        await updateGradingSessionStatus(session.id, 'completed');
+        await logAuditEvents(session.id, [
+          { type: 'grading_finished', data: { status: 'completed', graded: gradingResults.length } }
+        ]);
+        setSavedSession({ ...session, results: gradingResults, status: 'completed' });
         toast.success('Results saved to history');
       }
       
@@ -104,6 +169,17 @@ export default function PushAndCheckPage() {
     }
   };
 
+  const handleReviewChange = async (updatedResults: StudentResult[]) => {
+    const previousResults = results;
+    setResults(updatedResults);
+    if (savedSession) {
+      const updatedSession = { ...savedSession, results: updatedResults };
+      setSavedSession(updatedSession);
+      await saveGradingSession(updatedSession);
+      await logAuditEvents(savedSession.id, resultChangeEvents(previousResults, updatedResults, user?.name ?? 'Teacher'));
+    }
+  };
+
   const handleViewHistory = () => {
     router.push('/grading/history');
   };
@@ -164,7 +240,7 @@ export default function PushAndCheckPage() {
                     <SelectContent>
                       {rubrics.map((rubric) => (
                         <SelectItem key={rubric.id} value={rubric.id}>
-                          {rubric.name} ({rubric.subject})
+                          {rubric.name} ({rubric.subject}{rubric.version !== undefined && `, v${rubric.version}`})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -182,6 +258,22 @@ export default function PushAndCheckPage() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Language</Label>
+                  <Select value={language} onValueChange={(value) => setLanguage(value as GradingLanguage)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a language" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGE_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Upload Student Files</Label>
                   <FileUploader 
@@ -189,6 +281,8 @@ export default function PushAndCheckPage() {
                     multiple={true}
                     maxFiles={10}
                     onChange={handleFileChange}
+                    groupable={true}
+                    onGroupsChange={setFileGroups}
                   />
                 </div>
               </CardContent>
@@ -223,6 +317,11 @@ export default function PushAndCheckPage() {
                   />
                 </div>
               </CardContent>
+              {progress.length > 0 && (
+                <CardContent>
+                  <GradingProgress progress={progress} rateLimitedUntil={rateLimitedUntil} />
+                </CardContent>
+              )}
               <CardFooter className="flex justify-between">
                 <Button
                   variant="outline"
@@ -242,13 +341,16 @@ export default function PushAndCheckPage() {
           </TabsContent>
 
           <TabsContent value="results" className="space-y-4">
+            {results.some(result => !isGraded(result)) && (
+              <ReviewQueue results={results} onChange={handleReviewChange} />
+            )}
             {results.length > 0 ? (
               <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                 {results.map((result, index) => (
                   <Card key={index} className="hover:shadow-lg transition-shadow">
                     <CardHeader>
                       <div className="flex items-center justify-between">
-                        <CardTitle className="text-lg">{files[index].name}</CardTitle>
+                        <CardTitle className="text-lg">{result.name}</CardTitle>
                         <Button
                           variant="outline"
                           size="sm"
@@ -263,9 +365,15 @@ export default function PushAndCheckPage() {
                         <div>
                           <div className="flex justify-between items-center mb-2">
                             <Label>Overall Score</Label>
-                            <span className="text-2xl font-bold text-primary">
-                              {result.score}%
-                            </span>
+                            {isGraded(result) ? (
+                              <span className="text-2xl font-bold text-primary">
+                                {result.score}%
+                              </span>
+                            ) : (
+                              <Badge variant="outline" className="border-orange-300 text-orange-700">
+                                Needs review
+                              </Badge>
+                            )}
                           </div>
                           <div className="h-2 bg-secondary rounded-full overflow-hidden">
                             <div
@@ -298,7 +406,7 @@ export default function PushAndCheckPage() {
 
         {results.length > 0 && (
           <StudentPreview
-            files={files}
+            submissions={submissions}
             isOpen={isPreviewOpen}
             onClose={() => setIsPreviewOpen(false)}
             gradingResults={results}
@@ -0,0 +1,369 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, Play, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { CalibrationReport } from "@/components/rubrics/calibration-report"
+import { ExemplarForm } from "@/components/rubrics/exemplar-form"
+import { useAuth } from "@/contexts/auth-context"
+import { computeAgreement, hasOutdatedAiScores, toRubricExamples, type CalibrationExemplar } from "@/lib/calibration"
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, type GradingLanguage } from "@/lib/languages"
+import { initializeOCR, isGraded, processStudentAnswers } from "@/lib/processing"
+import { snapshotRubric } from "@/lib/rubrics"
+import { consistencyOptions, getGradingSettings } from "@/lib/settings"
+import {
+  base64ToFile,
+  deleteCalibrationExemplar,
+  getCalibrationExemplars,
+  getRubric,
+  saveCalibrationExemplar,
+  saveRubric,
+  type Rubric,
+} from "@/lib/storage"
+
+export default function RubricCalibrationPage() {
+  const params = useParams()
+  const rubricId = params.id as string
+
+  const [isLoading, setIsLoading] = useState(true)
+  const [rubric, setRubric] = useState<Rubric | null>(null)
+  const [exemplars, setExemplars] = useState<CalibrationExemplar[]>([])
+  // Exemplars to store on the rubric as few-shot examples
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const [calibrationProgress, setCalibrationProgress] = useState(0)
+  const [isSavingExamples, setIsSavingExamples] = useState(false)
+  // Language the exemplars are written in: picks the OCR model and the language of the AI's feedback
+  const [language, setLanguage] = useState<GradingLanguage>(DEFAULT_LANGUAGE)
+  const router = useRouter()
+  const { user, loading } = useAuth()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/login")
+    }
+  }, [user, loading, router])
+
+  useEffect(() => {
+    if (!user) return
+    setIsLoading(true)
+
+    Promise.all([getRubric(rubricId), getCalibrationExemplars(rubricId)])
+      .then(([storedRubric, storedExemplars]) => {
+        setRubric(storedRubric ?? null)
+        setExemplars(storedExemplars)
+        setSelectedIds(new Set(storedRubric?.examples?.map((example) => example.id)))
+      })
+      .catch((error) => {
+        console.error("Error loading calibration:", error)
+        setRubric(null)
+      })
+      .finally(() => setIsLoading(false))
+  }, [rubricId, user])
+
+  const agreement = useMemo(
+    () => (rubric ? computeAgreement(rubric.criteria, exemplars) : []),
+    [rubric, exemplars]
+  )
+
+  const handleSaveExemplar = async (exemplar: CalibrationExemplar) => {
+    try {
+      await saveCalibrationExemplar(exemplar)
+      setExemplars([...exemplars, exemplar])
+      toast.success("Exemplar saved")
+      return true
+    } catch (error) {
+      toast.error("Failed to save exemplar")
+      console.error(error)
+      return false
+    }
+  }
+
+  const handleDeleteExemplar = async (id: string) => {
+    try {
+      await deleteCalibrationExemplar(id)
+      setExemplars(exemplars.filter((exemplar) => exemplar.id !== id))
+      setSelectedIds((ids) => {
+        const next = new Set(ids)
+        next.delete(id)
+        return next
+      })
+    } catch (error) {
+      toast.error("Failed to delete exemplar")
+      console.error(error)
+    }
+  }
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((ids) => {
+      const next = new Set(ids)
+      if (selected) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  // Grades every exemplar with the current rubric and stores the AI's scores next to the teacher's
+  const handleRunCalibration = async () => {
+    if (!user || !rubric || exemplars.length === 0) return
+
+    setIsCalibrating(true)
+    setCalibrationProgress(0)
+    try {
+      const { mode, concurrency, ocr, consistency, ...providerSettings } = getGradingSettings(user.id)
+      if (ocr) {
+        await initializeOCR(language)
+      }
+      const submissions = exemplars.map((exemplar) => ({
+        name: exemplar.name,
+        files: exemplar.files.map((base64, index) => base64ToFile(base64, exemplar.fileNames[index] || `page_${index + 1}`)),
+      }))
+      // The rubric's stored examples are left out so the AI is not shown the papers it is being checked against
+      const results = await processStudentAnswers(submissions, { ...snapshotRubric(rubric), examples: undefined }, undefined, {
+        subject: rubric.subject,
+        providerSettings,
+        mode,
+        concurrency,
+        ocr,
+        ocrTexts: exemplars.map((exemplar) => exemplar.answerText),
+        language,
+        consistency: consistencyOptions(consistency),
+        onProgress: (event) => {
+          if (event.type === "file_completed") {
+            setCalibrationProgress((count) => count + 1)
+          }
+        },
+      })
+
+      const calibratedAt = new Date().toISOString()
+      const updated = await Promise.all(
+        exemplars.map(async (exemplar, index) => {
+          const result = results.find((candidate) => candidate.fileIndex === index)
+          if (!result) return exemplar
+
+          // Criteria come back in rubric order; ones the AI failed to score are left out of the comparison.
+          // Criteria flagged because their runs disagreed still have a median score to compare.
+          const aiScores: Record<string, number> = {}
+          result.criteria.forEach((criterion, criterionIndex) => {
+            const rubricCriterion = rubric.criteria[criterionIndex]
+            if (rubricCriterion && (isGraded(criterion) || criterion.consistency)) {
+              aiScores[rubricCriterion.id] = criterion.score
+            }
+          })
+          const calibrated = {
+            ...exemplar,
+            aiScores,
+            aiRubricVersion: rubric.version ?? 1,
+            aiCriteria: rubric.criteria,
+            calibratedAt,
+          }
+          await saveCalibrationExemplar(calibrated)
+          return calibrated
+        })
+      )
+      setExemplars(updated)
+      toast.success("Calibration complete")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Calibration failed")
+      console.error(error)
+    } finally {
+      setIsCalibrating(false)
+    }
+  }
+
+  const handleSaveExamples = async () => {
+    if (!rubric) return
+    const selected = exemplars.filter((exemplar) => selectedIds.has(exemplar.id))
+
+    setIsSavingExamples(true)
+    try {
+      const saved = await saveRubric(
+        { ...rubric, examples: toRubricExamples(rubric, selected) },
+        user?.name,
+        `Updated graded examples (${selected.length})`
+      )
+      setRubric(saved)
+      toast.success("Examples saved to the rubric")
+    } catch (error) {
+      toast.error("Failed to save examples")
+      console.error(error)
+    } finally {
+      setIsSavingExamples(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto p-6">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold">Loading Calibration</h1>
+          <p className="text-muted-foreground">Please wait while we load the rubric</p>
+        </header>
+      </div>
+    )
+  }
+
+  if (!rubric) {
+    return (
+      <div className="container mx-auto p-6">
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold">Rubric Not Found</h1>
+          <p className="text-muted-foreground">The rubric you're looking for doesn't exist or has been removed</p>
+        </header>
+        <Button variant="outline" asChild>
+          <Link href="/rubrics">Back to Rubrics</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const calibratedCount = exemplars.filter((exemplar) => exemplar.aiScores).length
+
+  return (
+    <div className="container mx-auto p-6">
+      <header className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Calibrate {rubric.name}</h1>
+          <p className="text-muted-foreground">
+            Compare the AI's scores with your own on hand-graded papers, and teach it with your grading
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/rubrics" className="flex items-center gap-2">
+            <ArrowLeft size={16} />
+            Back to Rubrics
+          </Link>
+        </Button>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Agreement</CardTitle>
+              <CardDescription>
+                {calibratedCount > 0
+                  ? `Teacher and AI scores compared over ${calibratedCount} exemplar${calibratedCount === 1 ? "" : "s"}. Bias above zero means the AI scores higher than you.`
+                  : "Run calibration to see how closely the AI's scores match yours."}
+              </CardDescription>
+            </CardHeader>
+            {calibratedCount > 0 && (
+              <CardContent>
+                <CalibrationReport agreement={agreement} />
+              </CardContent>
+            )}
+            <CardFooter className="gap-2">
+              <Select value={language} onValueChange={(value) => setLanguage(value as GradingLanguage)}>
+                <SelectTrigger className="w-[160px]" aria-label="Language">
+                  <SelectValue placeholder="Select a language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleRunCalibration}
+                disabled={isCalibrating || exemplars.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Play size={16} />
+                {isCalibrating ? `Grading ${calibrationProgress}/${exemplars.length}...` : "Run Calibration"}
+              </Button>
+            </CardFooter>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Exemplars</CardTitle>
+              <CardDescription>
+                Selected exemplars are sent with every grading request for this rubric as examples of your grading
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {exemplars.length === 0 && (
+                <p className="text-sm text-muted-foreground">No exemplars yet. Add a paper you've graded by hand.</p>
+              )}
+              {exemplars.map((exemplar) => (
+                <div key={exemplar.id} className="rounded-md border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{exemplar.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {exemplar.fileNames.length} page{exemplar.fileNames.length === 1 ? "" : "s"} • Graded by{" "}
+                        {exemplar.createdBy}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {hasOutdatedAiScores(exemplar, rubric) && (
+                        <Badge variant="outline">AI scores from version {exemplar.aiRubricVersion}</Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteExemplar(exemplar.id)}
+                      >
+                        <Trash2 size={16} />
+                        <span className="sr-only">Delete {exemplar.name}</span>
+                      </Button>
+                    </div>
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {rubric.criteria.map((criterion) => (
+                      <li key={criterion.id} className="flex justify-between gap-2">
+                        <span>{criterion.description}</span>
+                        <span className="text-muted-foreground">
+                          You {exemplar.teacherScores[criterion.id] ?? "—"} • AI{" "}
+                          {exemplar.aiScores?.[criterion.id] ?? "—"} / {criterion.weight}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedIds.has(exemplar.id)}
+                      onCheckedChange={(checked) => toggleSelected(exemplar.id, checked === true)}
+                      disabled={!exemplar.answerText}
+                    />
+                    {exemplar.answerText ? "Use as example" : "Use as example (needs a transcription)"}
+                  </label>
+                </div>
+              ))}
+            </CardContent>
+            <CardFooter>
+              <Button
+                variant="outline"
+                onClick={handleSaveExamples}
+                disabled={rubric.isTemplate || isSavingExamples}
+                className="flex items-center gap-2"
+              >
+                <Save size={16} />
+                {rubric.isTemplate ? "Templates can't store examples" : "Save Examples to Rubric"}
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+
+        <ExemplarForm
+          rubric={rubric}
+          teacherName={user?.name ?? "Unknown"}
+          language={language}
+          onSave={handleSaveExemplar}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -17,9 +18,31 @@ import {
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Plus, Edit, Trash2, Copy, Download, Search, GripVertical, X } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Plus, Edit, Trash2, Copy, Download, Upload, Search, GripVertical, X, History, Layers, Sparkles, Target } from "lucide-react"
 import { toast } from "sonner"
-import { Rubric, RubricCriterion, saveRubric, getAllRubrics, deleteRubric, initializeDefaultRubrics } from "@/lib/storage"
+import {
+  Rubric,
+  RubricCriterion,
+  RubricLevel,
+  saveRubric,
+  getAllRubrics,
+  deleteRubric,
+  initializeDefaultRubrics,
+  rollbackRubric,
+} from "@/lib/storage"
+import { RubricHistory } from "@/components/rubrics/rubric-history"
+import { RubricImportDialog } from "@/components/rubrics/rubric-import-dialog"
+import { RubricGeneratorDialog } from "@/components/rubrics/rubric-generator-dialog"
+import type { GeneratedRubric } from "@/lib/rubric-generation"
+import { exportRubricsCsv, exportRubricsJson, parseRubricImport, type ImportedRubric } from "@/lib/rubric-transfer"
+import { createDefaultLevels, validateLevels, validateWeight } from "@/lib/rubrics"
+import { useAuth } from "@/contexts/auth-context"
 import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd"
 
 const SUBJECTS = [
@@ -29,9 +52,23 @@ const SUBJECTS = [
   { value: "Chemistry", label: "Chemistry" },
   { value: "Biology", label: "Biology" },
   { value: "Computer Science", label: "Computer Science" },
+  { value: "Social Studies", label: "Social Studies" },
   { value: "Other", label: "Other" }
 ]
 
+function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function toFileName(name: string) {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "rubric"
+}
+
 export default function RubricsPage() {
   const [rubrics, setRubrics] = useState<Rubric[]>([])
   const [editingRubric, setEditingRubric] = useState<Rubric | null>(null)
@@ -39,6 +76,14 @@ export default function RubricsPage() {
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedSubject, setSelectedSubject] = useState<string>("all")
   const [criteria, setCriteria] = useState<RubricCriterion[]>([])
+  const [historyRubric, setHistoryRubric] = useState<Rubric | null>(null)
+  const [expandedCriterion, setExpandedCriterion] = useState<string | null>(null)
+  const [importFileName, setImportFileName] = useState("")
+  const [importedRubrics, setImportedRubrics] = useState<ImportedRubric[] | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [isGeneratorOpen, setIsGeneratorOpen] = useState(false)
+  const [saveNote, setSaveNote] = useState<string | undefined>(undefined)
+  const { user } = useAuth()
 
   useEffect(() => {
     const loadRubrics = async () => {
@@ -57,6 +102,9 @@ export default function RubricsPage() {
     }
   }, [editingRubric])
 
+  // Generated rubrics open in the editor before they are ever saved
+  const isNewRubric = !editingRubric || !rubrics.some((rubric) => rubric.id === editingRubric.id)
+
   const filteredRubrics = rubrics.filter(rubric => {
     const matchesSearch = rubric.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          rubric.content.toLowerCase().includes(searchTerm.toLowerCase())
@@ -82,22 +130,32 @@ export default function RubricsPage() {
       return
     }
 
+    const criterionError = criteria
+      .map((criterion) => validateWeight(criterion) ?? validateLevels(criterion))
+      .find((error) => error !== null)
+    if (criterionError) {
+      toast.error(criterionError)
+      return
+    }
+
     const rubric: Rubric = {
       id: editingRubric?.id || `rubric-${Date.now()}`,
       name,
       subject,
       criteria,
+      examples: editingRubric?.examples,
       content: "", // This will be generated in the storage function
       createdAt: editingRubric?.createdAt || new Date().toISOString(),
       isTemplate: false
     }
 
     try {
-      await saveRubric(rubric)
+      await saveRubric(rubric, user?.name, saveNote)
       const updatedRubrics = await getAllRubrics()
     setRubrics(updatedRubrics)
       setIsDialogOpen(false)
-      toast.success(editingRubric ? "Rubric updated successfully" : "Rubric created successfully")
+      toast.success(isNewRubric ? "Rubric created successfully" : "Rubric updated successfully")
+      setSaveNote(undefined)
       setEditingRubric(null)
       setCriteria([])
     } catch (error) {
@@ -130,7 +188,7 @@ export default function RubricsPage() {
     }
 
     try {
-      await saveRubric(duplicatedRubric)
+      await saveRubric(duplicatedRubric, user?.name, `Copied from ${rubric.name}`)
       const updatedRubrics = await getAllRubrics()
       setRubrics(updatedRubrics)
       toast.success("Rubric duplicated successfully")
@@ -140,6 +198,74 @@ export default function RubricsPage() {
     }
   }
 
+  const handleRestoreVersion = async (version: number) => {
+    if (!historyRubric) return
+
+    try {
+      const restored = await rollbackRubric(historyRubric.id, version, user?.name)
+      setRubrics(await getAllRubrics())
+      setHistoryRubric(restored)
+      toast.success(`Restored version ${version} as version ${restored.version}`)
+    } catch (error) {
+      toast.error("Failed to restore rubric version")
+      console.error(error)
+    }
+  }
+
+  const handleExport = (exported: Rubric[], format: "json" | "csv", baseName: string) => {
+    if (exported.length === 0) {
+      toast.error("There are no rubrics to export")
+      return
+    }
+    if (format === "json") {
+      downloadFile(exportRubricsJson(exported), `${baseName}.json`, "application/json")
+    } else {
+      downloadFile(exportRubricsCsv(exported), `${baseName}.csv`, "text/csv")
+    }
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      setImportedRubrics(parseRubricImport(await file.text(), file.name))
+      setImportFileName(file.name)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read rubric file")
+      console.error(error)
+    }
+  }
+
+  const handleImported = async () => {
+    setImportedRubrics(null)
+    setRubrics(await getAllRubrics())
+  }
+
+  const handleAcceptGenerated = (generated: GeneratedRubric, subject: string) => {
+    const stamp = Date.now()
+    setEditingRubric({
+      id: `rubric-${stamp}`,
+      name: generated.name,
+      subject,
+      criteria: generated.criteria.map((criterion, index) => ({
+        id: `criterion-${stamp}-${index}`,
+        description: criterion.description,
+        weight: criterion.weight,
+        ...(criterion.levels.length > 0 && {
+          levels: criterion.levels.map((level, levelIndex) => ({ ...level, id: `level-${stamp}-${index}-${levelIndex}` })),
+        }),
+      })),
+      content: "",
+      createdAt: new Date().toISOString(),
+      isTemplate: false,
+    })
+    setSaveNote("Generated from an assignment description")
+    setIsGeneratorOpen(false)
+    setIsDialogOpen(true)
+  }
+
   const handleAddCriterion = () => {
     setCriteria([
       ...criteria,
@@ -160,6 +286,33 @@ export default function RubricsPage() {
     setCriteria(newCriteria)
   }
 
+  const updateLevels = (index: number, levels: RubricLevel[] | undefined) => {
+    const newCriteria = [...criteria]
+    newCriteria[index] = { ...newCriteria[index], levels }
+    setCriteria(newCriteria)
+  }
+
+  const handleUpdateLevel = (index: number, levelIndex: number, field: keyof RubricLevel, value: string) => {
+    const levels = (criteria[index].levels ?? []).map((level, i) =>
+      i === levelIndex
+        ? { ...level, [field]: field === "minScore" || field === "maxScore" ? Number(value) : value }
+        : level
+    )
+    updateLevels(index, levels)
+  }
+
+  const handleAddLevel = (index: number) => {
+    updateLevels(index, [
+      ...(criteria[index].levels ?? []),
+      { id: `level-${Date.now()}`, name: "", description: "", minScore: 0, maxScore: criteria[index].weight },
+    ])
+  }
+
+  const handleDeleteLevel = (index: number, levelIndex: number) => {
+    const levels = (criteria[index].levels ?? []).filter((_, i) => i !== levelIndex)
+    updateLevels(index, levels.length > 0 ? levels : undefined)
+  }
+
   const handleDeleteCriterion = (index: number) => {
     setCriteria(criteria.filter((_, i) => i !== index))
   }
@@ -179,9 +332,47 @@ export default function RubricsPage() {
       <div className="flex flex-col space-y-6">
         <div className="flex justify-between items-center">
             <h1 className="text-3xl font-bold">Rubrics</h1>
+          <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.csv"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button variant="outline" onClick={() => importInputRef.current?.click()} className="flex items-center gap-2">
+            <Upload size={20} />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center gap-2">
+                <Download size={20} />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport(filteredRubrics, "json", "rubrics")}>
+                Shown rubrics as JSON
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport(filteredRubrics, "csv", "rubrics")}>
+                Shown rubrics as CSV
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setIsGeneratorOpen(true)} className="flex items-center gap-2">
+            <Sparkles size={20} />
+            Generate Rubric
+          </Button>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button onClick={() => setEditingRubric(null)} className="flex items-center gap-2">
+              <Button
+                onClick={() => {
+                  setEditingRubric(null)
+                  setSaveNote(undefined)
+                }}
+                className="flex items-center gap-2"
+              >
                 <Plus size={20} />
               Create New Rubric
               </Button>
@@ -189,12 +380,14 @@ export default function RubricsPage() {
             <DialogContent className="sm:max-w-[700px]">
           <DialogHeader>
                 <DialogTitle className="text-2xl">
-                  {editingRubric ? "Edit Rubric" : "Create New Rubric"}
+                  {!isNewRubric ? "Edit Rubric" : editingRubric ? "Review Generated Rubric" : "Create New Rubric"}
                 </DialogTitle>
                 <DialogDescription>
-                  {editingRubric 
+                  {!isNewRubric
                     ? "Make changes to your rubric here. Click save when you're done."
-                    : "Create a new rubric by filling out the information below."}
+                    : editingRubric
+                      ? "Adjust the proposed criteria, weights and levels, then save the rubric."
+                      : "Create a new rubric by filling out the information below."}
                 </DialogDescription>
           </DialogHeader>
               <form onSubmit={handleSaveRubric} className="space-y-6">
@@ -252,8 +445,9 @@ export default function RubricsPage() {
                                 <div
                                   ref={provided.innerRef}
                                   {...provided.draggableProps}
-                                  className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg border"
+                                  className="p-2 bg-gray-50 rounded-lg border space-y-2"
                                 >
+                                <div className="flex items-center gap-2">
                                   <div {...provided.dragHandleProps} className="cursor-grab">
                                     <GripVertical size={20} className="text-gray-400" />
                                   </div>
@@ -274,6 +468,19 @@ export default function RubricsPage() {
                                     />
                                     <span className="text-sm text-gray-500">%</span>
                                   </div>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() =>
+                                      setExpandedCriterion(expandedCriterion === criterion.id ? null : criterion.id)
+                                    }
+                                    className="flex items-center gap-1"
+                                  >
+                                    <Layers size={16} />
+                                    {criterion.levels?.length ?? 0}
+                                    <span className="sr-only">Performance levels</span>
+                                  </Button>
                                   <Button
                                     type="button"
                                     variant="ghost"
@@ -284,6 +491,75 @@ export default function RubricsPage() {
                                     <X size={16} />
                                   </Button>
                                 </div>
+                                {expandedCriterion === criterion.id && (
+                                  <div className="space-y-2 pl-7">
+                                    {(criterion.levels ?? []).map((level, levelIndex) => (
+                                      <div key={level.id} className="space-y-1 rounded-md border bg-white p-2">
+                                        <div className="flex items-center gap-2">
+                                          <Input
+                                            value={level.name}
+                                            onChange={(e) => handleUpdateLevel(index, levelIndex, "name", e.target.value)}
+                                            placeholder="Level name"
+                                            className="flex-1"
+                                          />
+                                          <Input
+                                            type="number"
+                                            value={level.minScore}
+                                            onChange={(e) => handleUpdateLevel(index, levelIndex, "minScore", e.target.value)}
+                                            className="w-16 text-right"
+                                            min="0"
+                                            max={criterion.weight}
+                                            aria-label="Minimum points"
+                                          />
+                                          <span className="text-sm text-gray-500">to</span>
+                                          <Input
+                                            type="number"
+                                            value={level.maxScore}
+                                            onChange={(e) => handleUpdateLevel(index, levelIndex, "maxScore", e.target.value)}
+                                            className="w-16 text-right"
+                                            min="0"
+                                            max={criterion.weight}
+                                            aria-label="Maximum points"
+                                          />
+                                          <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => handleDeleteLevel(index, levelIndex)}
+                                            className="text-red-500 hover:text-red-700"
+                                          >
+                                            <X size={14} />
+                                          </Button>
+                                        </div>
+                                        <Textarea
+                                          value={level.description}
+                                          onChange={(e) => handleUpdateLevel(index, levelIndex, "description", e.target.value)}
+                                          placeholder="What an answer at this level looks like"
+                                          rows={2}
+                                        />
+                                      </div>
+                                    ))}
+                                    <div className="flex gap-2">
+                                      <Button type="button" variant="outline" size="sm" onClick={() => handleAddLevel(index)}>
+                                        <Plus size={14} className="mr-1" /> Add Level
+                                      </Button>
+                                      {!criterion.levels?.length && (
+                                        <Button
+                                          type="button"
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => updateLevels(index, createDefaultLevels(criterion.weight))}
+                                        >
+                                          Use Standard Levels
+                                        </Button>
+                                      )}
+                                    </div>
+                                    <p className="text-xs text-gray-500">
+                                      Points are out of this criterion&apos;s weight ({criterion.weight}).
+                                    </p>
+                                  </div>
+                                )}
+                                </div>
                               )}
                             </Draggable>
                           ))}
@@ -309,6 +585,7 @@ export default function RubricsPage() {
               </form>
         </DialogContent>
       </Dialog>
+          </div>
             </div>
 
         <div className="flex flex-col md:flex-row gap-4 items-center">
@@ -343,7 +620,10 @@ export default function RubricsPage() {
                 <div className="flex justify-between items-start">
                   <div>
                     <CardTitle className="text-xl">{rubric.name}</CardTitle>
-                    <CardDescription>{rubric.subject}</CardDescription>
+                    <CardDescription>
+                      {rubric.subject}
+                      {rubric.version !== undefined && ` • Version ${rubric.version}`}
+                    </CardDescription>
                   </div>
                   {rubric.isTemplate && (
                     <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full font-medium">
@@ -364,6 +644,7 @@ export default function RubricsPage() {
                     size="sm"
                     onClick={() => {
                       setEditingRubric(rubric)
+                      setSaveNote(undefined)
                       setIsDialogOpen(true)
                     }}
                     className="flex items-center gap-1"
@@ -372,6 +653,21 @@ export default function RubricsPage() {
                     Edit
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHistoryRubric(rubric)}
+                  className="flex items-center gap-1"
+                >
+                  <History size={16} />
+                  History
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/rubrics/${rubric.id}/calibration`} className="flex items-center gap-1">
+                    <Target size={16} />
+                    Calibrate
+                  </Link>
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -381,6 +677,15 @@ export default function RubricsPage() {
                   <Copy size={16} />
                   Duplicate
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExport([rubric], "json", toFileName(rubric.name))}
+                  className="flex items-center gap-1"
+                >
+                  <Download size={16} />
+                  <span className="sr-only">Export {rubric.name}</span>
+                </Button>
                 {!rubric.isTemplate && (
                   <Button
                     variant="destructive"
@@ -397,6 +702,34 @@ export default function RubricsPage() {
           ))}
             </div>
           </div>
+
+      <Dialog open={!!historyRubric} onOpenChange={(open) => !open && setHistoryRubric(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Version History - {historyRubric?.name}</DialogTitle>
+            <DialogDescription>
+              Every save is kept as a version. Restoring saves the older criteria as a new version.
+            </DialogDescription>
+          </DialogHeader>
+          {historyRubric && <RubricHistory rubric={historyRubric} onRestore={handleRestoreVersion} />}
+        </DialogContent>
+      </Dialog>
+
+      <RubricGeneratorDialog
+        open={isGeneratorOpen}
+        onOpenChange={setIsGeneratorOpen}
+        subjects={SUBJECTS}
+        onAccept={handleAcceptGenerated}
+      />
+
+      <RubricImportDialog
+        fileName={importFileName}
+        imported={importedRubrics}
+        existingRubrics={rubrics}
+        author={user?.name}
+        onClose={() => setImportedRubrics(null)}
+        onImported={handleImported}
+      />
     </div>
   )
 }
@@ -2,15 +2,18 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/use-toast"
 import { useAuth } from "@/contexts/auth-context"
+import { PROVIDER_OPTIONS, type ProviderSettings } from "@/lib/providers"
+import { DEFAULT_GRADING_SETTINGS, getGradingSettings, saveGradingSettings, type GradingSettings } from "@/lib/settings"
 
 export default function SettingsPage() {
   const { user } = useAuth()
@@ -26,6 +29,14 @@ export default function SettingsPage() {
   const [gradingCompletionNotifications, setGradingCompletionNotifications] = useState(true)
   const [weeklyReports, setWeeklyReports] = useState(false)
 
+  const [gradingSettings, setGradingSettings] = useState<GradingSettings>(DEFAULT_GRADING_SETTINGS)
+
+  useEffect(() => {
+    if (user) {
+      setGradingSettings(getGradingSettings(user.id))
+    }
+  }, [user])
+
   const handleProfileUpdate = (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -70,6 +81,18 @@ export default function SettingsPage() {
     })
   }
 
+  const handleGradingUpdate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    saveGradingSettings(user.id, gradingSettings)
+
+    toast({
+      title: "Grading settings updated",
+      description: "New grading sessions will use the selected provider",
+    })
+  }
+
   return (
     <div className="container mx-auto p-6">
       <header className="mb-8">
@@ -82,6 +105,7 @@ export default function SettingsPage() {
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="password">Password</TabsTrigger>
           <TabsTrigger value="notifications">Notifications</TabsTrigger>
+          <TabsTrigger value="grading">Grading</TabsTrigger>
         </TabsList>
 
         <TabsContent value="profile">
@@ -195,6 +219,189 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="grading">
+          <Card>
+            <CardHeader>
+              <CardTitle>Grading Provider</CardTitle>
+              <CardDescription>Choose which AI service grades your students' answers</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleGradingUpdate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grading-provider">Provider</Label>
+                  <Select
+                    value={gradingSettings.provider}
+                    onValueChange={(value) =>
+                      setGradingSettings({ ...gradingSettings, provider: value as ProviderSettings["provider"] })
+                    }
+                  >
+                    <SelectTrigger id="grading-provider">
+                      <SelectValue placeholder="Select a provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROVIDER_OPTIONS.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {PROVIDER_OPTIONS.find((option) => option.id === gradingSettings.provider)?.description}
+                  </p>
+                </div>
+
+                {gradingSettings.provider === "openai" && (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      The endpoint and model are set on the server with OPENAI_BASE_URL and OPENAI_MODEL
+                    </p>
+
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium">Model Accepts Images</h4>
+                        <p className="text-sm text-muted-foreground">
+                          Turn off for text-only models; answers are then sent as OCR text
+                        </p>
+                      </div>
+                      <Switch
+                        checked={gradingSettings.openaiSupportsImages ?? true}
+                        onCheckedChange={(checked) =>
+                          setGradingSettings({ ...gradingSettings, openaiSupportsImages: checked })
+                        }
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="grading-mode">Grading Mode</Label>
+                  <Select
+                    value={gradingSettings.mode}
+                    onValueChange={(value) =>
+                      setGradingSettings({ ...gradingSettings, mode: value as GradingSettings["mode"] })
+                    }
+                  >
+                    <SelectTrigger id="grading-mode">
+                      <SelectValue placeholder="Select a grading mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="combined">One request per student</SelectItem>
+                      <SelectItem value="per_criterion">One request per criterion</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {gradingSettings.mode === "combined"
+                      ? "Uploads each answer once and scores the whole rubric in a single request"
+                      : "Scores each criterion separately; slower, but useful if a provider struggles with long rubrics"}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="grading-concurrency">Students Graded at Once</Label>
+                  <Input
+                    id="grading-concurrency"
+                    type="number"
+                    min="1"
+                    max="8"
+                    value={gradingSettings.concurrency}
+                    onChange={(e) =>
+                      setGradingSettings({
+                        ...gradingSettings,
+                        concurrency: Math.min(8, Math.max(1, parseInt(e.target.value) || 1)),
+                      })
+                    }
+                    className="w-24"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Higher values finish sooner but are more likely to hit the provider&apos;s rate limits
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium">Extract Text with OCR</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Recognize the text of each answer before grading so you can correct it; required for text-only
+                      models
+                    </p>
+                  </div>
+                  <Switch
+                    checked={gradingSettings.ocr}
+                    onCheckedChange={(checked) => setGradingSettings({ ...gradingSettings, ocr: checked })}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium">Consistency Check</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Grade each criterion several times and use the median score; criteria whose scores disagree are
+                      sent to the review queue. Multiplies the number of AI requests
+                    </p>
+                  </div>
+                  <Switch
+                    checked={gradingSettings.consistency.enabled}
+                    onCheckedChange={(checked) =>
+                      setGradingSettings({
+                        ...gradingSettings,
+                        consistency: { ...gradingSettings.consistency, enabled: checked },
+                      })
+                    }
+                  />
+                </div>
+
+                {gradingSettings.consistency.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="consistency-samples">Runs per Criterion</Label>
+                      <Input
+                        id="consistency-samples"
+                        type="number"
+                        min="2"
+                        max="7"
+                        value={gradingSettings.consistency.samples}
+                        onChange={(e) =>
+                          setGradingSettings({
+                            ...gradingSettings,
+                            consistency: {
+                              ...gradingSettings.consistency,
+                              samples: Math.min(7, Math.max(2, parseInt(e.target.value) || 2)),
+                            },
+                          })
+                        }
+                        className="w-24"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="consistency-threshold">Allowed Spread (% of points)</Label>
+                      <Input
+                        id="consistency-threshold"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={Math.round(gradingSettings.consistency.threshold * 100)}
+                        onChange={(e) =>
+                          setGradingSettings({
+                            ...gradingSettings,
+                            consistency: {
+                              ...gradingSettings.consistency,
+                              threshold: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100,
+                            },
+                          })
+                        }
+                        className="w-24"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <Button type="submit">Save Grading Settings</Button>
+              </form>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { consistencyOptionsSchema, gradeExam, gradeFile, isAbortError, isRateLimitError } from '@/lib/grading';
+import { examSchema } from '@/lib/exams';
+import { parseJSONField } from '@/lib/form-data';
+import { DEFAULT_LANGUAGE, isGradingLanguage } from '@/lib/languages';
+import {
+  DEFAULT_PROVIDER_SETTINGS,
+  getGradingProvider,
+  providerSettingsSchema,
+  recordProviderCalls,
+  type ProviderCallRecord
+} from '@/lib/providers';
+
+export const runtime = 'nodejs';
+
+const criteriaSchema = z.array(z.object({
+  name: z.string().min(1),
+  maxScore: z.number().positive(),
+  levels: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().default(''),
+    minScore: z.number().min(0),
+    maxScore: z.number().min(0)
+  })).optional(),
+  examples: z.array(z.object({
+    answer: z.string(),
+    score: z.number().min(0),
+    feedback: z.string().optional()
+  })).optional()
+})).min(1);
+
+// Grades one student submission against the rubric criteria on the server
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 });
+  }
+
+  // Each page of a submission arrives as its own `file` entry, in page order
+  const pages = formData.getAll('file').filter((entry): entry is File => entry instanceof File);
+  if (pages.length === 0) {
+    return NextResponse.json({ error: 'Student file is required' }, { status: 400 });
+  }
+
+  const criteria = criteriaSchema.safeParse(parseJSONField(formData.get('criteria')));
+  if (!criteria.success) {
+    return NextResponse.json({ error: 'Invalid rubric criteria' }, { status: 400 });
+  }
+
+  const providerField = parseJSONField(formData.get('provider'));
+  const providerSettings = providerField === undefined
+    ? { success: true as const, data: DEFAULT_PROVIDER_SETTINGS }
+    : providerSettingsSchema.safeParse(providerField);
+  if (!providerSettings.success) {
+    return NextResponse.json({ error: 'Invalid provider settings' }, { status: 400 });
+  }
+
+  // Present when the session grades question by question
+  const examField = parseJSONField(formData.get('exam'));
+  const exam = examField === undefined ? undefined : examSchema.safeParse(examField);
+  if (exam && !exam.success) {
+    return NextResponse.json({ error: 'Invalid exam definition' }, { status: 400 });
+  }
+
+  // Present when each criterion should be graded several times
+  const consistencyField = parseJSONField(formData.get('consistency'));
+  const consistency = consistencyField === undefined ? undefined : consistencyOptionsSchema.safeParse(consistencyField);
+  if (consistency && !consistency.success) {
+    return NextResponse.json({ error: 'Invalid consistency settings' }, { status: 400 });
+  }
+
+  const answerKey = formData.getAll('answerKey').filter((entry): entry is File => entry instanceof File);
+  const answerText = formData.get('answerText');
+  const answerKeyText = formData.get('answerKeyText');
+  const subject = formData.get('subject');
+  const mode = formData.get('mode') === 'per_criterion' ? 'per_criterion' : 'combined';
+  const language = formData.get('language');
+
+  const answer = { pages, text: typeof answerText === 'string' && answerText ? answerText : undefined };
+  const answerKeyDocument = {
+    pages: answerKey,
+    text: typeof answerKeyText === 'string' && answerKeyText ? answerKeyText : undefined
+  };
+  // Every prompt and raw response goes back to the browser, which keeps the session's audit log
+  const calls: ProviderCallRecord[] = [];
+  const provider = recordProviderCalls(getGradingProvider(providerSettings.data), calls);
+  const gradingLanguage = isGradingLanguage(language) ? language : DEFAULT_LANGUAGE;
+
+  try {
+    // Exams are always graded in one request per student, whatever the grading mode, and only once
+    if (exam?.success) {
+      const results = await gradeExam(
+        answer,
+        exam.data,
+        criteria.data,
+        typeof subject === 'string' ? subject : '',
+        answerKeyDocument,
+        provider,
+        gradingLanguage,
+        request.signal
+      );
+      return NextResponse.json({ ...results, calls });
+    }
+
+    const results = await gradeFile(
+      answer,
+      criteria.data,
+      typeof subject === 'string' ? subject : '',
+      answerKeyDocument,
+      provider,
+      mode,
+      gradingLanguage,
+      // Stops the provider call when the teacher cancels and the browser drops the request
+      request.signal,
+      consistency?.data
+    );
+    return NextResponse.json({ criteria: results, calls });
+  } catch (error) {
+    if (isAbortError(error)) {
+      return NextResponse.json({ error: 'Grading cancelled' }, { status: 499 });
+    }
+    // A 429 lets the browser queue hold every student back until the provider's quota recovers
+    if (isRateLimitError(error)) {
+      const errorMessage = error instanceof Error ? error.message : 'Rate limited';
+      return NextResponse.json({ error: errorMessage }, { status: 429 });
+    }
+    console.error('Grading route error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { parseJSONField } from '@/lib/form-data';
+import { isAbortError } from '@/lib/grading';
+import { DEFAULT_LANGUAGE, isGradingLanguage } from '@/lib/languages';
+import { DEFAULT_PROVIDER_SETTINGS, getGradingProvider, providerSettingsSchema } from '@/lib/providers';
+import { generateRubric } from '@/lib/rubric-generation';
+
+export const runtime = 'nodejs';
+
+function textField(value: FormDataEntryValue | null): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// Proposes a rubric from an assignment description or answer key; the browser saves it after the teacher edits it
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 });
+  }
+
+  const subject = textField(formData.get('subject'));
+  if (!subject) {
+    return NextResponse.json({ error: 'Subject is required' }, { status: 400 });
+  }
+
+  const providerField = parseJSONField(formData.get('provider'));
+  const providerSettings = providerField === undefined
+    ? { success: true as const, data: DEFAULT_PROVIDER_SETTINGS }
+    : providerSettingsSchema.safeParse(providerField);
+  if (!providerSettings.success) {
+    return NextResponse.json({ error: 'Invalid provider settings' }, { status: 400 });
+  }
+
+  const input = {
+    subject,
+    assignment: textField(formData.get('assignment')),
+    // Each page of the answer key arrives as its own `answerKey` entry, in page order
+    answerKeyPages: formData.getAll('answerKey').filter((entry): entry is File => entry instanceof File),
+    answerKeyText: textField(formData.get('answerKeyText'))
+  };
+  if (!input.assignment && !input.answerKeyText && input.answerKeyPages.length === 0) {
+    return NextResponse.json({ error: 'Describe the assignment or provide an answer key' }, { status: 400 });
+  }
+  const language = formData.get('language');
+
+  try {
+    const rubric = await generateRubric(
+      input,
+      getGradingProvider(providerSettings.data),
+      isGradingLanguage(language) ? language : DEFAULT_LANGUAGE,
+      request.signal
+    );
+    return NextResponse.json({ rubric });
+  } catch (error) {
+    if (isAbortError(error)) {
+      return NextResponse.json({ error: 'Generation cancelled' }, { status: 499 });
+    }
+    console.error('Rubric generation route error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
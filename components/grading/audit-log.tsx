@@ -0,0 +1,94 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { getAuditEvents } from "@/lib/storage"
+import { AUDIT_EVENT_LABELS, type AuditEvent } from "@/lib/audit"
+
+interface AuditLogProps {
+  sessionId: string
+}
+
+// One line per event type; the full event data is shown when the row is expanded
+function summarize(event: AuditEvent): string {
+  const data = event.data
+  switch (event.type) {
+    case "session_created":
+      return `${data.sessionName} - ${data.students} student(s), ${data.files} file(s)`
+    case "rubric_snapshot": {
+      const rubric = data.rubric as { name: string; version: number } | undefined
+      return rubric ? `${rubric.name} (version ${rubric.version})` : String(data.rubricText || "No rubric text").split("\n")[0]
+    }
+    case "grading_started":
+      return `${data.provider} - ${data.mode}, concurrency ${data.concurrency}`
+    case "model_call":
+      return `${data.model}, attempt ${data.attempt}, ${data.durationMs} ms${data.error ? ` - ${data.error}` : ""}`
+    case "retry":
+      return data.attempt ? `Attempt ${data.attempt}` : String(data.error ?? "")
+    case "score_parsed":
+      return (data.criteria as Array<{ name: string; score: number; maxScore: number }>)
+        .map((criterion) => `${criterion.name} ${criterion.score}/${criterion.maxScore}`)
+        .join(", ")
+    case "grading_failed":
+      return String(data.error)
+    case "grading_finished":
+      return `${data.status} - ${data.graded} graded`
+    case "manual_score":
+      return `${data.criterion}: ${data.score}/${data.maxScore} by ${data.teacher}`
+    case "override":
+      return `${data.criterion}: ${data.previousScore} -> ${data.score}/${data.maxScore} by ${data.teacher}`
+    case "override_reverted":
+      return `${data.criterion}: back to ${data.score}/${data.maxScore} by ${data.teacher}`
+  }
+}
+
+export function AuditLog({ sessionId }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEvent[] | null>(null)
+
+  useEffect(() => {
+    setEvents(null)
+    getAuditEvents(sessionId)
+      .then(setEvents)
+      .catch((error) => {
+        console.error("Error loading audit log:", error)
+        setEvents([])
+      })
+  }, [sessionId])
+
+  if (!events) {
+    return <p className="text-sm text-muted-foreground">Loading audit log...</p>
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No audit events were recorded for this session. Sessions graded before the audit log existed have none.
+      </p>
+    )
+  }
+
+  return (
+    <ScrollArea className="h-[500px] pr-4">
+      <ol className="space-y-2">
+        {events.map((event) => (
+          <li key={event.id} className="rounded-md border p-3">
+            <details>
+              <summary className="cursor-pointer list-none">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">{new Date(event.timestamp).toLocaleString()}</span>
+                  <Badge variant="outline">{AUDIT_EVENT_LABELS[event.type]}</Badge>
+                  {event.student && <span className="font-medium">{event.student}</span>}
+                </div>
+                <p className="mt-1 truncate text-sm text-muted-foreground">{summarize(event)}</p>
+              </summary>
+              <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 font-mono text-xs">
+                {JSON.stringify(event.data, null, 2)}
+              </pre>
+            </details>
+          </li>
+        ))}
+      </ol>
+    </ScrollArea>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ListOrdered, Plus, Scissors, Trash2 } from "lucide-react"
+import {
+  createExamQuestion,
+  segmentAnswerKey,
+  totalExamPoints,
+  type ExamQuestion
+} from "@/lib/exams"
+
+interface ExamEditorProps {
+  questions: ExamQuestion[]
+  onChange: (questions: ExamQuestion[]) => void
+}
+
+export function ExamEditor({ questions, onChange }: ExamEditorProps) {
+  const [fullAnswerKey, setFullAnswerKey] = useState("")
+
+  const updateQuestion = (index: number, changes: Partial<ExamQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)))
+  }
+
+  const handleSplit = () => {
+    const segments = segmentAnswerKey(fullAnswerKey, questions.length)
+    onChange(questions.map((question, i) => ({ ...question, answerKey: segments[i] || question.answerKey })))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Exam Questions
+            </CardTitle>
+            <CardDescription>
+              Optional. Add the exam&apos;s questions to score each one separately; leave empty to grade the whole paper.
+            </CardDescription>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange([...questions, createExamQuestion()])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
+      </CardHeader>
+      {questions.length > 0 && (
+        <CardContent className="space-y-6">
+          {questions.map((question, index) => (
+            <div key={question.id} className="space-y-3 rounded-lg border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label className="font-medium">Question {index + 1}</Label>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`points-${question.id}`} className="text-sm text-muted-foreground">
+                    Points
+                  </Label>
+                  <Input
+                    id={`points-${question.id}`}
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={question.maxScore}
+                    onChange={(e) => updateQuestion(index, { maxScore: parseFloat(e.target.value) || 0 })}
+                    className="w-20"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                placeholder="Question text"
+                value={question.prompt}
+                onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                rows={2}
+              />
+              <Textarea
+                placeholder="Expected answer for this question (optional)"
+                value={question.answerKey ?? ""}
+                onChange={(e) => updateQuestion(index, { answerKey: e.target.value })}
+                rows={2}
+                className="font-mono text-sm"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="full-answer-key">Full Answer Key</Label>
+            <Textarea
+              id="full-answer-key"
+              placeholder={"1. First answer\n2. Second answer\n..."}
+              value={fullAnswerKey}
+              onChange={(e) => setFullAnswerKey(e.target.value)}
+              rows={5}
+              className="font-mono text-sm"
+            />
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Paste a numbered answer key to fill in each question&apos;s expected answer.
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={handleSplit} disabled={!fullAnswerKey.trim()}>
+                <Scissors className="h-4 w-4 mr-2" />
+                Split by Question
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {questions.length} question{questions.length === 1 ? "" : "s"}, {totalExamPoints({ questions })} points in total
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
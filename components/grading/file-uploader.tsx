@@ -3,23 +3,84 @@
 import type React from "react"
 
 import { useState, useRef } from "react"
-import { Upload, X, File, ImageIcon } from "lucide-react"
+import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd"
+import { Upload, X, File, ImageIcon, GripVertical, RefreshCw } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
+import { groupFilesByName, parsePageFileName, submissionName, type FileGroups } from "@/lib/submissions"
 
 interface FileUploaderProps {
   accept: string
   multiple?: boolean
   maxFiles?: number
   onChange: (files: File[]) => void
+  // Groups files into students by filename (alice_p1.jpg, alice_p2.jpg) and lets the teacher drag files between them
+  groupable?: boolean
+  onGroupsChange?: (groups: FileGroups) => void
 }
 
-export function FileUploader({ accept, multiple = false, maxFiles = 10, onChange }: FileUploaderProps) {
+const NEW_GROUP_ID = "new-group"
+
+export function FileUploader({
+  accept,
+  multiple = false,
+  maxFiles = 10,
+  onChange,
+  groupable = false,
+  onGroupsChange,
+}: FileUploaderProps) {
   const [files, setFiles] = useState<File[]>([])
+  const [groups, setGroups] = useState<FileGroups>([])
   const [isDragging, setIsDragging] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
+  const updateGroups = (newGroups: FileGroups) => {
+    const nonEmpty = newGroups.filter((group) => group.length > 0)
+    setGroups(nonEmpty)
+    onGroupsChange?.(nonEmpty)
+  }
+
+  // New page files join an existing student with the same name, everything else starts a new student
+  const addFiles = (newFiles: File[]) => {
+    const allFiles = [...files, ...newFiles]
+    const studentOf = (group: number[]) => parsePageFileName(allFiles[group[0]].name)?.student.toLowerCase()
+    const merged = groups.map((group) => [...group])
+    for (const group of groupFilesByName(newFiles, files.length)) {
+      const student = studentOf(group)
+      const existing = student ? merged.find((item) => studentOf(item) === student) : undefined
+      if (existing) {
+        existing.push(...group)
+      } else {
+        merged.push(group)
+      }
+    }
+
+    setFiles(allFiles)
+    onChange(allFiles)
+    updateGroups(merged)
+  }
+
+  const handleRegroup = () => {
+    updateGroups(groupFilesByName(files))
+  }
+
+  const handleGroupDragEnd = (result: DropResult) => {
+    if (!result.destination) return
+
+    const newGroups = groups.map((group) => [...group])
+    const sourceGroup = newGroups[Number(result.source.droppableId.replace("group-", ""))]
+    const [fileIndex] = sourceGroup.splice(result.source.index, 1)
+
+    if (result.destination.droppableId === NEW_GROUP_ID) {
+      newGroups.push([fileIndex])
+    } else {
+      const destinationGroup = newGroups[Number(result.destination.droppableId.replace("group-", ""))]
+      destinationGroup.splice(result.destination.index, 0, fileIndex)
+    }
+    updateGroups(newGroups)
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const fileList = Array.from(e.target.files)
@@ -34,9 +95,7 @@ export function FileUploader({ accept, multiple = false, maxFiles = 10, onChange
           return
         }
 
-        const newFiles = [...files, ...fileList]
-        setFiles(newFiles)
-        onChange(newFiles)
+        addFiles(fileList)
       } else {
         setFiles(fileList)
         onChange(fileList)
@@ -82,9 +141,7 @@ export function FileUploader({ accept, multiple = false, maxFiles = 10, onChange
           return
         }
 
-        const newFiles = [...files, ...fileList]
-        setFiles(newFiles)
-        onChange(newFiles)
+        addFiles(fileList)
       } else {
         setFiles([fileList[0]])
         onChange([fileList[0]])
@@ -97,6 +154,9 @@ export function FileUploader({ accept, multiple = false, maxFiles = 10, onChange
     newFiles.splice(index, 1)
     setFiles(newFiles)
     onChange(newFiles)
+    updateGroups(
+      groups.map((group) => group.filter((item) => item !== index).map((item) => (item > index ? item - 1 : item)))
+    )
   }
 
   const triggerFileInput = () => {
@@ -140,7 +200,97 @@ export function FileUploader({ accept, multiple = false, maxFiles = 10, onChange
         </div>
       </div>
 
-      {files.length > 0 && (
+      {groupable && multiple && files.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">
+              {groups.length} student(s) from {files.length} file(s)
+            </h4>
+            <Button type="button" variant="ghost" size="sm" onClick={handleRegroup}>
+              <RefreshCw className="mr-1 h-4 w-4" />
+              Regroup by filename
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Drag a file onto another student to combine pages, or onto the box below to make it a separate student.
+          </p>
+          <DragDropContext onDragEnd={handleGroupDragEnd}>
+            <div className="space-y-2">
+              {groups.map((group, groupIndex) => (
+                <Droppable key={`group-${groupIndex}`} droppableId={`group-${groupIndex}`}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.droppableProps}
+                      className={`rounded-md border p-2 ${snapshot.isDraggingOver ? "border-primary bg-primary/5" : ""}`}
+                    >
+                      <p className="mb-1 text-sm font-medium">
+                        {submissionName(group.map((index) => files[index]))}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">{group.length} page(s)</span>
+                      </p>
+                      <ul className="space-y-1">
+                        {group.map((fileIndex, position) => {
+                          const file = files[fileIndex]
+                          return (
+                            <Draggable key={`file-${fileIndex}`} draggableId={`file-${fileIndex}`} index={position}>
+                              {(provided) => (
+                                <li
+                                  ref={provided.innerRef}
+                                  {...provided.draggableProps}
+                                  className="flex items-center justify-between rounded-md bg-muted/50 p-1.5"
+                                >
+                                  <div className="flex items-center space-x-2">
+                                    <div {...provided.dragHandleProps} className="cursor-grab">
+                                      <GripVertical className="h-4 w-4 text-muted-foreground" />
+                                    </div>
+                                    {isImageFile(file) ? (
+                                      <ImageIcon className="h-4 w-4 text-primary" />
+                                    ) : (
+                                      <File className="h-4 w-4 text-primary" />
+                                    )}
+                                    <span className="text-sm truncate max-w-[200px]">{file.name}</span>
+                                  </div>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeFile(fileIndex)}
+                                    className="h-6 w-6 p-0"
+                                  >
+                                    <X className="h-4 w-4" />
+                                    <span className="sr-only">Remove file</span>
+                                  </Button>
+                                </li>
+                              )}
+                            </Draggable>
+                          )
+                        })}
+                        {provided.placeholder}
+                      </ul>
+                    </div>
+                  )}
+                </Droppable>
+              ))}
+              <Droppable droppableId={NEW_GROUP_ID}>
+                {(provided, snapshot) => (
+                  <div
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className={`rounded-md border border-dashed p-3 text-center text-xs text-muted-foreground ${
+                      snapshot.isDraggingOver ? "border-primary bg-primary/5" : ""
+                    }`}
+                  >
+                    Drop here to make a separate student
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
+            </div>
+          </DragDropContext>
+        </div>
+      )}
+
+      {!(groupable && multiple) && files.length > 0 && (
         <div className="space-y-2">
           <h4 className="text-sm font-medium">Selected Files:</h4>
           <ul className="space-y-2">
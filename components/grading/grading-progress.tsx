@@ -0,0 +1,156 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CheckCircle2, Clock, Loader2, Pause, Play, Square } from "lucide-react"
+import type { GradingProgressEvent } from "@/lib/processing"
+
+export interface FileProgress {
+  name: string
+  status: "queued" | "grading" | "graded" | "needs_review"
+  criteriaDone: number
+  criteriaTotal: number
+  score?: number
+}
+
+// Function to build the initial progress list before grading starts
+export function createFileProgress(submissions: Array<{ name: string }>, criteriaTotal: number): FileProgress[] {
+  return submissions.map((submission) => ({
+    name: submission.name,
+    status: "queued",
+    criteriaDone: 0,
+    criteriaTotal,
+  }))
+}
+
+// Function to fold a progress event from processStudentAnswers into the list
+export function applyProgressEvent(progress: FileProgress[], event: GradingProgressEvent): FileProgress[] {
+  switch (event.type) {
+    case "file_started":
+      return progress.map((item, index) =>
+        index === event.fileIndex ? { ...item, status: "grading", criteriaDone: 0 } : item
+      )
+    case "criterion_completed":
+      return progress.map((item, index) =>
+        index === event.fileIndex ? { ...item, criteriaDone: item.criteriaDone + 1 } : item
+      )
+    case "file_completed":
+      return progress.map((item, index) =>
+        index === event.fileIndex
+          ? {
+              ...item,
+              status: event.result.status,
+              criteriaDone: item.criteriaTotal,
+              score: event.result.score,
+            }
+          : item
+      )
+    default:
+      return progress
+  }
+}
+
+// Function to put students that were in flight when the batch was cancelled back in the queue
+export function resetUnfinishedProgress(progress: FileProgress[]): FileProgress[] {
+  return progress.map((item) => (item.status === "grading" ? { ...item, status: "queued", criteriaDone: 0 } : item))
+}
+
+interface GradingProgressProps {
+  progress: FileProgress[]
+  rateLimitedUntil?: number | null
+  isRunning?: boolean
+  isPaused?: boolean
+  onPause?: () => void
+  onResume?: () => void
+  onCancel?: () => void
+}
+
+export function GradingProgress({
+  progress,
+  rateLimitedUntil,
+  isRunning,
+  isPaused,
+  onPause,
+  onResume,
+  onCancel,
+}: GradingProgressProps) {
+  const completed = progress.filter((item) => item.status === "graded" || item.status === "needs_review").length
+  const percentage = progress.length > 0 ? (completed / progress.length) * 100 : 0
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Grading Progress</CardTitle>
+          <CardDescription>
+            {completed} of {progress.length} student(s) graded
+            {isRunning && isPaused && " (paused)"}
+          </CardDescription>
+        </div>
+        {isRunning && (
+          <div className="flex gap-2">
+            {isPaused
+              ? onResume && (
+                  <Button type="button" variant="outline" size="sm" onClick={onResume}>
+                    <Play className="mr-1 h-4 w-4" />
+                    Resume
+                  </Button>
+                )
+              : onPause && (
+                  <Button type="button" variant="outline" size="sm" onClick={onPause}>
+                    <Pause className="mr-1 h-4 w-4" />
+                    Pause
+                  </Button>
+                )}
+            {onCancel && (
+              <Button type="button" variant="destructive" size="sm" onClick={onCancel}>
+                <Square className="mr-1 h-4 w-4" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={percentage} className="h-2" />
+        {isRunning && isPaused && (
+          <p className="text-sm text-muted-foreground">
+            Paused. Students already being graded will finish; no new ones will start until you resume.
+          </p>
+        )}
+        {rateLimitedUntil && rateLimitedUntil > Date.now() && (
+          <p className="text-sm text-orange-700">Rate limit reached, waiting before sending more requests...</p>
+        )}
+        <ul className="space-y-2">
+          {progress.map((item, index) => (
+            <li key={`${item.name}-${index}`} className="flex items-center justify-between rounded-md border p-2 text-sm">
+              <div className="flex items-center gap-2">
+                {item.status === "queued" && <Clock className="h-4 w-4 text-muted-foreground" />}
+                {item.status === "grading" && <Loader2 className="h-4 w-4 animate-spin text-primary" />}
+                {item.status === "graded" && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                {item.status === "needs_review" && <AlertTriangle className="h-4 w-4 text-orange-600" />}
+                <span className="truncate max-w-[240px]">{item.name}</span>
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                {item.status === "grading" && (
+                  <span>
+                    {item.criteriaDone}/{item.criteriaTotal} criteria
+                  </span>
+                )}
+                {item.status === "queued" && <span>Queued</span>}
+                {item.status === "graded" && <span className="font-medium text-foreground">{item.score}%</span>}
+                {item.status === "needs_review" && (
+                  <Badge variant="outline" className="border-orange-300 text-orange-700">
+                    Needs review
+                  </Badge>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
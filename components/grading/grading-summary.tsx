@@ -3,7 +3,9 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
 import { Eye } from "lucide-react"
+import { isGraded } from "@/lib/processing"
 
 interface GradingSummaryProps {
   data: any
@@ -11,11 +13,13 @@ interface GradingSummaryProps {
 }
 
 export function GradingSummary({ data, onSelectStudent }: GradingSummaryProps) {
-  // Calculate statistics
-  const scores = data.students.map((student: any) => student.score)
-  const averageScore = scores.reduce((a: number, b: number) => a + b, 0) / scores.length
-  const highestScore = Math.max(...scores)
-  const lowestScore = Math.min(...scores)
+  // Calculate statistics, leaving out students whose results still need review
+  const scores = data.students.filter(isGraded).map((student: any) => student.score)
+  const hasScores = scores.length > 0
+  const averageScore = hasScores ? scores.reduce((a: number, b: number) => a + b, 0) / scores.length : 0
+  const highestScore = hasScores ? Math.max(...scores) : 0
+  const lowestScore = hasScores ? Math.min(...scores) : 0
+  const needsReviewCount = data.students.length - scores.length
 
   return (
     <div className="space-y-6">
@@ -23,7 +27,9 @@ export function GradingSummary({ data, onSelectStudent }: GradingSummaryProps) {
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium">Average Score</CardTitle>
-            <CardDescription>Across all students</CardDescription>
+            <CardDescription>
+              {needsReviewCount > 0 ? `Excluding ${needsReviewCount} awaiting review` : "Across all students"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{averageScore.toFixed(1)}%</div>
@@ -68,10 +74,27 @@ export function GradingSummary({ data, onSelectStudent }: GradingSummaryProps) {
             <TableBody>
               {data.students.map((student: any) => (
                 <TableRow key={student.id}>
-                  <TableCell className="font-medium">{student.name}</TableCell>
+                  <TableCell className="font-medium">
+                    {student.name}
+                    {student.moderated && (
+                      <Badge variant="outline" className="ml-2 border-blue-300 text-blue-700">
+                        Moderated
+                      </Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{student.filename}</TableCell>
-                  <TableCell className="text-right">{student.score}%</TableCell>
-                  <TableCell className="text-right">{getGradeFromScore(student.score)}</TableCell>
+                  {isGraded(student) ? (
+                    <>
+                      <TableCell className="text-right">{student.score}%</TableCell>
+                      <TableCell className="text-right">{getGradeFromScore(student.score)}</TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={2} className="text-right">
+                      <Badge variant="outline" className="border-orange-300 text-orange-700">
+                        Needs review
+                      </Badge>
+                    </TableCell>
+                  )}
                   <TableCell className="text-right">
                     <Button variant="ghost" size="sm" onClick={() => onSelectStudent(student.id)}>
                       <Eye className="mr-2 h-4 w-4" />
@@ -0,0 +1,70 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ScanText } from "lucide-react"
+import type { StudentSubmission } from "@/lib/submissions"
+
+interface OcrReviewProps {
+  submissions: StudentSubmission[]
+  texts: Array<string | undefined>
+  isExtracting: boolean
+  onExtract: () => void
+  onChange: (texts: Array<string | undefined>) => void
+}
+
+export function OcrReview({ submissions, texts, isExtracting, onExtract, onChange }: OcrReviewProps) {
+  const extractedCount = texts.filter((text) => text !== undefined).length
+
+  const handleTextChange = (index: number, value: string) => {
+    const updated = submissions.map((_, i) => texts[i])
+    updated[index] = value
+    onChange(updated)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ScanText className="h-5 w-5" />
+              Recognized Text
+            </CardTitle>
+            <CardDescription>
+              Extract the text of each answer and correct any recognition mistakes before grading. Students you skip
+              are recognized automatically when grading starts.
+            </CardDescription>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={onExtract} disabled={isExtracting}>
+            {isExtracting
+              ? `Extracting ${extractedCount + 1} of ${submissions.length}...`
+              : extractedCount > 0
+                ? "Extract Again"
+                : "Extract Text"}
+          </Button>
+        </div>
+      </CardHeader>
+      {extractedCount > 0 && (
+        <CardContent className="space-y-4">
+          {submissions.map((submission, index) =>
+            texts[index] === undefined ? null : (
+              <div key={`${submission.name}-${index}`} className="space-y-2">
+                <Label htmlFor={`ocr-text-${index}`}>{submission.name}</Label>
+                <Textarea
+                  id={`ocr-text-${index}`}
+                  value={texts[index]}
+                  onChange={(e) => handleTextChange(index, e.target.value)}
+                  rows={6}
+                  className="font-mono text-sm"
+                />
+              </div>
+            )
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, CheckCircle2 } from "lucide-react"
+import { applyManualScore, type StudentResult } from "@/lib/processing"
+
+interface ReviewQueueProps {
+  results: StudentResult[]
+  onChange: (results: StudentResult[]) => void
+}
+
+export function ReviewQueue({ results, onChange }: ReviewQueueProps) {
+  const [scores, setScores] = useState<Record<string, string>>({})
+
+  // Every criterion the AI could not score reliably, across all students
+  const queue = results.flatMap((result, studentIndex) =>
+    result.criteria
+      .map((criterion, criterionIndex) => ({ result, studentIndex, criterion, criterionIndex }))
+      .filter(({ criterion }) => criterion.status === "needs_review")
+  )
+
+  const handleSave = (studentIndex: number, criterionIndex: number, maxScore: number) => {
+    const key = `${studentIndex}-${criterionIndex}`
+    const score = Number(scores[key])
+    if (scores[key] === undefined || scores[key] === "" || isNaN(score) || score < 0 || score > maxScore) {
+      return
+    }
+
+    const updatedResults = results.map((result, index) =>
+      index === studentIndex ? applyManualScore(result, criterionIndex, score) : result
+    )
+    setScores(({ [key]: _, ...rest }) => rest)
+    onChange(updatedResults)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-600" />
+          Review Queue
+        </CardTitle>
+        <CardDescription>
+          These criteria could not be graded automatically, or got inconsistent scores across runs. Enter a score
+          for each one; they are left out of averages until you do.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            All criteria have been scored
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {queue.map(({ result, studentIndex, criterion, criterionIndex }) => {
+              const key = `${studentIndex}-${criterionIndex}`
+              return (
+                <li key={key} className="flex flex-col gap-2 rounded-md border p-3 md:flex-row md:items-center">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{result.name}</span>
+                      <Badge variant="outline">{criterion.name}</Badge>
+                    </div>
+                    {criterion.error && <p className="text-xs text-muted-foreground">{criterion.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      max={criterion.maxScore}
+                      value={scores[key] ?? ""}
+                      onChange={(e) => setScores({ ...scores, [key]: e.target.value })}
+                      className="w-20 text-right"
+                      aria-label={`Score for ${criterion.name}`}
+                    />
+                    <span className="text-sm text-muted-foreground">/ {criterion.maxScore}</span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleSave(studentIndex, criterionIndex, criterion.maxScore)}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { isGraded } from "@/lib/processing"
 
 interface StudentDetailsProps {
   data: any
@@ -35,7 +37,7 @@ export function StudentDetails({ data, selectedStudent, onSelectStudent }: Stude
                 <SelectContent>
                   {data.students.map((s: any) => (
                     <SelectItem key={s.id} value={s.id}>
-                      {s.name} ({s.score}%)
+                      {s.name} ({isGraded(s) ? `${s.score}%` : "Needs review"})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -50,15 +52,24 @@ export function StudentDetails({ data, selectedStudent, onSelectStudent }: Stude
                 <h3 className="text-xl font-bold">{student.name}</h3>
                 <p className="text-sm text-muted-foreground">File: {student.filename}</p>
               </div>
-              <div className="mt-4 md:mt-0">
-                <div className="flex items-center space-x-2">
-                  <div className="text-2xl font-bold">{student.score}%</div>
-                  <div className="rounded-full bg-primary/10 px-2 py-1 text-xs font-medium text-primary">
-                    Grade: {getGradeFromScore(student.score)}
+              {isGraded(student) ? (
+                <div className="mt-4 md:mt-0">
+                  <div className="flex items-center space-x-2">
+                    <div className="text-2xl font-bold">{student.score}%</div>
+                    <div className="rounded-full bg-primary/10 px-2 py-1 text-xs font-medium text-primary">
+                      Grade: {getGradeFromScore(student.score)}
+                    </div>
                   </div>
+                  <Progress value={student.score} className="h-2 w-[200px]" />
                 </div>
-                <Progress value={student.score} className="h-2 w-[200px]" />
-              </div>
+              ) : (
+                // The score is incomplete until a teacher grades the failed criteria, so none is shown
+                <div className="mt-4 md:mt-0">
+                  <Badge variant="outline" className="border-orange-300 text-orange-700">
+                    Needs review
+                  </Badge>
+                </div>
+              )}
             </div>
           </div>
 
@@ -76,12 +87,14 @@ export function StudentDetails({ data, selectedStudent, onSelectStudent }: Stude
                       <CardTitle className="text-base font-medium">{item.question}</CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      <div>
-                        <h4 className="mb-1 text-sm font-medium text-muted-foreground">Student Answer:</h4>
-                        <div className="rounded-md bg-muted p-3">
-                          <p className="text-sm">{item.answer}</p>
+                      {item.answer && (
+                        <div>
+                          <h4 className="mb-1 text-sm font-medium text-muted-foreground">Student Answer:</h4>
+                          <div className="rounded-md bg-muted p-3">
+                            <p className="text-sm whitespace-pre-wrap">{item.answer}</p>
+                          </div>
                         </div>
-                      </div>
+                      )}
 
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-2">
@@ -110,28 +123,26 @@ export function StudentDetails({ data, selectedStudent, onSelectStudent }: Stude
                 <CardContent className="pt-6">
                   <div className="space-y-4">
                     <h3 className="text-sm font-medium">Student Answer Images</h3>
-                    <div className="grid gap-4 md:grid-cols-2">
-                      {/* In a real app, these would be actual images from the student */}
-                      <div className="relative aspect-[4/3] overflow-hidden rounded-md border">
-                        <Image
-                          src="/placeholder.svg?height=600&width=800"
-                          alt="Student answer page 1"
-                          fill
-                          className="object-cover"
-                        />
-                      </div>
-                      <div className="relative aspect-[4/3] overflow-hidden rounded-md border">
-                        <Image
-                          src="/placeholder.svg?height=600&width=800"
-                          alt="Student answer page 2"
-                          fill
-                          className="object-cover"
-                        />
+                    {student.images.length > 0 ? (
+                      <div className="grid gap-4 md:grid-cols-2">
+                        {student.images.map((src: string, index: number) => (
+                          <div key={index} className="relative aspect-[3/4] overflow-hidden rounded-md border">
+                            <Image
+                              src={src}
+                              alt={`Student answer page ${index + 1}`}
+                              fill
+                              className="object-contain"
+                              unoptimized
+                            />
+                          </div>
+                        ))}
                       </div>
-                    </div>
-                    <p className="text-xs text-muted-foreground text-center mt-2">
-                      In a production environment, this would show the actual student answer images.
-                    </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No page images are available for this student. PDF submissions can be viewed from the history
+                        preview.
+                      </p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
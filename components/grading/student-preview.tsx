@@ -1,36 +1,162 @@
 import Image from 'next/image';
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Pencil, RotateCcw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getSubmissionPages } from '@/lib/pdf';
+import { isLowConfidence, type ConfidenceScore, type CriterionResult } from '@/lib/grading';
+import { hasLowConfidence, isTeacherScored, overrideCriterion, revertOverride, type StudentResult } from '@/lib/processing';
+import type { StudentSubmission } from '@/lib/submissions';
 
 interface StudentPreviewProps {
-  files: File[];
+  submissions: StudentSubmission[];
   isOpen: boolean;
   onClose: () => void;
-  gradingResults: Array<{
-    id: string;
-    name: string;
-    score: number;
-    feedback: string;
-    criteria: Array<{
-      name: string;
-      score: number;
-      maxScore: number;
-      feedback: string;
-    }>;
-  }> | null;
+  gradingResults: StudentResult[] | null;
   showResults: boolean;
+  // When set, criteria can be overridden inline and the updated result is passed back to be saved
+  onResultChange?: (result: StudentResult) => void;
+  teacherName?: string;
 }
 
-export function StudentPreview({ files, isOpen, onClose, gradingResults, showResults }: StudentPreviewProps) {
+// Sessions saved before structured grading only have the plain-text feedback
+const hasStructuredFeedback = (criterion: CriterionResult) =>
+  Array.isArray(criterion.strengths) &&
+  (criterion.strengths.length + criterion.weaknesses.length + criterion.suggestions.length > 0 || !!criterion.analysis);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Function to list the factors behind a confidence value, e.g. "model 80%, runs 90%, OCR 72%"
+function describeConfidence(confidence: ConfidenceScore): string {
+  return [
+    confidence.model !== undefined && `model ${percent(confidence.model)}`,
+    confidence.sampling !== undefined && `runs ${percent(confidence.sampling)}`,
+    confidence.ocr !== undefined && `OCR ${percent(confidence.ocr)}`
+  ].filter(Boolean).join(', ');
+}
+
+function FeedbackList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium text-muted-foreground">{title}:</p>
+      <ul className="list-none pl-2 space-y-1 text-muted-foreground">
+        {items.map((item, i) => (
+          <li key={i} className="flex items-start">
+            <span className="mr-2">•</span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function StudentPreview({
+  submissions,
+  isOpen,
+  onClose,
+  gradingResults,
+  showResults,
+  onResultChange,
+  teacherName = 'Teacher'
+}: StudentPreviewProps) {
   const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  
-  const currentFile = files[currentFileIndex];
-  const fileUrl = currentFile ? URL.createObjectURL(currentFile) : '';
-  const currentResult = gradingResults?.[currentFileIndex];
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftScore, setDraftScore] = useState('');
+  const [draftFeedback, setDraftFeedback] = useState('');
+  const [pageUrls, setPageUrls] = useState<string[]>([]);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+
+  const currentSubmission = submissions[currentFileIndex];
+
+  // Results saved incrementally carry their file index; older ones line up with the files by position
+  const resultFor = (fileIndex: number) =>
+    gradingResults?.find(result => result.fileIndex === fileIndex)
+    ?? gradingResults?.find((result, index) => result.fileIndex === undefined && index === fileIndex);
+
+  // With the filter on, only students with a low-confidence criterion can be stepped through
+  const lowConfidenceIndexes = submissions
+    .map((_submission, index) => index)
+    .filter(index => {
+      const result = resultFor(index);
+      return !!result && hasLowConfidence(result);
+    });
+  const visibleIndexes = lowConfidenceOnly ? lowConfidenceIndexes : submissions.map((_submission, index) => index);
+  const previousIndex = [...visibleIndexes].reverse().find(index => index < currentFileIndex);
+  const nextIndex = visibleIndexes.find(index => index > currentFileIndex);
+
+  // Turning the filter on moves off a student who has nothing to check
+  const handleLowConfidenceOnlyChange = (checked: boolean) => {
+    setLowConfidenceOnly(checked);
+    if (checked && lowConfidenceIndexes.length > 0 && !lowConfidenceIndexes.includes(currentFileIndex)) {
+      setCurrentFileIndex(lowConfidenceIndexes[0]);
+    }
+  };
+
+  // Every file of the submission is shown page by page, PDFs as their rendered pages,
+  // matching the images that were sent for grading
+  useEffect(() => {
+    if (!currentSubmission) return;
+    let cancelled = false;
+    let urls: string[] = [];
+
+    setPageUrls([]);
+    setCurrentPageIndex(0);
+    setPageError(null);
+    Promise.all(currentSubmission.files.map(getSubmissionPages))
+      .then(filePages => {
+        if (cancelled) return;
+        const pages = filePages.flat();
+        urls = pages.map(page => URL.createObjectURL(page));
+        setPageUrls(urls);
+      })
+      .catch(error => {
+        console.error('Error rendering submission pages:', error);
+        if (!cancelled) setPageError('Could not render this submission');
+      });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [currentSubmission]);
+
+  // An open edit belongs to the student it was started on
+  useEffect(() => {
+    setEditingIndex(null);
+  }, [currentFileIndex]);
+
+  const pageUrl = pageUrls[currentPageIndex];
+  const currentResult = resultFor(currentFileIndex);
+
+  const startEditing = (index: number) => {
+    const criterion = currentResult?.criteria[index];
+    if (!criterion) return;
+    setEditingIndex(index);
+    setDraftScore(String(criterion.score));
+    setDraftFeedback(criterion.feedback);
+  };
+
+  const draftScoreValue = Number(draftScore);
+  const isDraftValid = (maxScore: number) =>
+    draftScore.trim() !== '' && !isNaN(draftScoreValue) && draftScoreValue >= 0 && draftScoreValue <= maxScore;
+
+  const saveOverride = (index: number) => {
+    if (!currentResult || !onResultChange) return;
+    onResultChange(overrideCriterion(currentResult, index, { score: draftScoreValue, feedback: draftFeedback }, teacherName));
+    setEditingIndex(null);
+  };
 
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600";
@@ -57,7 +183,7 @@ export function StudentPreview({ files, isOpen, onClose, gradingResults, showRes
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-7xl">
         <DialogHeader>
-          <DialogTitle>Student Answer Review - {currentFile?.name}</DialogTitle>
+          <DialogTitle>Student Answer Review - {currentSubmission?.name}</DialogTitle>
         </DialogHeader>
         <div className="grid grid-cols-2 gap-6">
           {/* Left side - Image preview */}
@@ -65,41 +191,94 @@ export function StudentPreview({ files, isOpen, onClose, gradingResults, showRes
             <Card>
               <CardHeader>
                 <CardTitle className="text-base">
-                  File {currentFileIndex + 1} of {files.length}
+                  Student {currentFileIndex + 1} of {submissions.length}
+                  {pageUrls.length > 1 && ` - page ${currentPageIndex + 1} of ${pageUrls.length}`}
                 </CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
                 <div className="relative aspect-[4/3] overflow-hidden rounded-md border">
-                  <Image
-                    src={fileUrl}
-                    alt={`Student answer page ${currentFileIndex + 1}`}
-                    fill
-                    className="object-contain"
-                    unoptimized
-                  />
+                  {pageUrl ? (
+                    <Image
+                      src={pageUrl}
+                      alt={`Student answer page ${currentPageIndex + 1}`}
+                      fill
+                      className="object-contain"
+                      unoptimized
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                      {pageError ?? 'Rendering pages...'}
+                    </div>
+                  )}
                 </div>
+                {pageUrls.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {pageUrls.map((url, index) => (
+                      <button
+                        key={url}
+                        type="button"
+                        onClick={() => setCurrentPageIndex(index)}
+                        className={`relative h-20 w-16 flex-shrink-0 overflow-hidden rounded border ${
+                          index === currentPageIndex ? 'ring-2 ring-primary' : 'opacity-70 hover:opacity-100'
+                        }`}
+                      >
+                        <Image src={url} alt={`Page ${index + 1} thumbnail`} fill className="object-cover" unoptimized />
+                        <span className="sr-only">Show page {index + 1}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
             
             <div className="flex justify-between">
               <button
-                onClick={() => setCurrentFileIndex(prev => Math.max(0, prev - 1))}
-                disabled={currentFileIndex === 0}
+                onClick={() => previousIndex !== undefined && setCurrentFileIndex(previousIndex)}
+                disabled={previousIndex === undefined}
                 className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
               >
                 Previous
               </button>
               <span className="py-2">
-                Page {currentFileIndex + 1} of {files.length}
+                Student {currentFileIndex + 1} of {submissions.length}
               </span>
               <button
-                onClick={() => setCurrentFileIndex(prev => Math.min(files.length - 1, prev + 1))}
-                disabled={currentFileIndex === files.length - 1}
+                onClick={() => nextIndex !== undefined && setCurrentFileIndex(nextIndex)}
+                disabled={nextIndex === undefined}
                 className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
               >
                 Next
               </button>
             </div>
+
+            {showResults && (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="low-confidence-only" className="text-sm">
+                  Low confidence only ({lowConfidenceIndexes.length} student{lowConfidenceIndexes.length === 1 ? '' : 's'})
+                </Label>
+                <Switch
+                  id="low-confidence-only"
+                  checked={lowConfidenceOnly}
+                  onCheckedChange={handleLowConfidenceOnlyChange}
+                  disabled={lowConfidenceIndexes.length === 0 && !lowConfidenceOnly}
+                />
+              </div>
+            )}
+
+            {currentResult?.ocrText && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Recognized Text</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-40">
+                    <pre className="whitespace-pre-wrap font-mono text-sm text-muted-foreground">
+                      {currentResult.ocrText}
+                    </pre>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Right side - Grading results */}
@@ -123,38 +302,118 @@ export function StudentPreview({ files, isOpen, onClose, gradingResults, showRes
                       className="h-2"
                       indicatorClassName={getProgressColor(currentResult.score)}
                     />
-                    <Badge className={`mt-4 ${getFeedbackBadge(currentResult.score).class}`}>
-                      {getFeedbackBadge(currentResult.score).text}
-                    </Badge>
+                    {currentResult.status === 'needs_review' ? (
+                      <Badge className="mt-4 bg-orange-100 text-orange-800">Needs Review</Badge>
+                    ) : (
+                      <Badge className={`mt-4 ${getFeedbackBadge(currentResult.score).class}`}>
+                        {getFeedbackBadge(currentResult.score).text}
+                      </Badge>
+                    )}
                     <div className="mt-4 text-sm text-muted-foreground whitespace-pre-wrap">
                       {currentResult.feedback}
                     </div>
                   </CardContent>
                 </Card>
 
+                {currentResult.questions && currentResult.questions.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Questions</CardTitle>
+                      {currentResult.criteria.some(isTeacherScored) && (
+                        <CardDescription>
+                          The AI's scores per question. Your changes are in the breakdown below and in the total.
+                        </CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {currentResult.questions.map((question) => (
+                        <div key={question.questionId} className="space-y-1">
+                          <div className="flex items-start justify-between gap-4">
+                            <h3 className="font-medium">
+                              {question.question}
+                              {question.status === 'needs_review' && (
+                                <Badge className="ml-2 bg-orange-100 text-orange-800">Needs Review</Badge>
+                              )}
+                              {isLowConfidence(question) && (
+                                <Badge className="ml-2 bg-yellow-100 text-yellow-800">Low Confidence</Badge>
+                              )}
+                            </h3>
+                            <span className={`font-bold ${getScoreColor((question.score / question.maxScore) * 100)}`}>
+                              {question.score}/{question.maxScore}
+                            </span>
+                          </div>
+                          {question.confidence && (
+                            <p className="text-xs text-muted-foreground">
+                              Confidence {percent(question.confidence.value)} ({describeConfidence(question.confidence)})
+                            </p>
+                          )}
+                          {question.feedback && (
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{question.feedback}</p>
+                          )}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">Detailed Breakdown</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-6">
                     {currentResult.criteria.map((criterion, index) => {
+                      // Criteria the filter hides keep their index so overrides still land on the right one
+                      if (lowConfidenceOnly && !isLowConfidence(criterion)) return null;
                       const percentage = (criterion.score / criterion.maxScore) * 100;
                       return (
                         <div key={index} className="space-y-2">
                           <div className="flex items-start justify-between">
                             <div>
-                              <h3 className="font-medium">{criterion.name}</h3>
+                              <h3 className="font-medium">
+                                {criterion.name}
+                                {criterion.status === 'needs_review' && (
+                                  <Badge className="ml-2 bg-orange-100 text-orange-800">Needs Review</Badge>
+                                )}
+                                {criterion.override && (
+                                  <Badge className="ml-2 bg-blue-100 text-blue-800">Overridden</Badge>
+                                )}
+                                {isLowConfidence(criterion) && (
+                                  <Badge className="ml-2 bg-yellow-100 text-yellow-800">Low Confidence</Badge>
+                                )}
+                                {/* The level was chosen with the AI score, so it no longer applies once overridden */}
+                                {criterion.level && !criterion.override && (
+                                  <Badge variant="outline" className="ml-2">{criterion.level}</Badge>
+                                )}
+                              </h3>
                               <p className="text-sm text-muted-foreground">
                                 Weight: {(criterion.maxScore)}%
                               </p>
+                              {criterion.confidence && (
+                                <p className="text-xs text-muted-foreground">
+                                  Confidence {percent(criterion.confidence.value)} ({describeConfidence(criterion.confidence)})
+                                </p>
+                              )}
+                              {criterion.consistency && (
+                                <p className="text-xs text-muted-foreground">
+                                  Median of {criterion.consistency.scores.length} runs ({criterion.consistency.scores.join(', ')}), spread {criterion.consistency.spread}
+                                </p>
+                              )}
                             </div>
-                            <div className="text-right">
-                              <span className={`text-lg font-bold ${getScoreColor(percentage)}`}>
-                                {criterion.score}/{criterion.maxScore}
-                              </span>
-                              <p className="text-sm text-muted-foreground">
-                                ({percentage.toFixed(1)}%)
-                              </p>
+                            <div className="flex items-start gap-2">
+                              <div className="text-right">
+                                <span className={`text-lg font-bold ${getScoreColor(percentage)}`}>
+                                  {criterion.score}/{criterion.maxScore}
+                                </span>
+                                <p className="text-sm text-muted-foreground">
+                                  ({percentage.toFixed(1)}%)
+                                </p>
+                              </div>
+                              {onResultChange && editingIndex !== index && (
+                                <Button variant="ghost" size="icon" onClick={() => startEditing(index)}>
+                                  <Pencil className="h-4 w-4" />
+                                  <span className="sr-only">Override {criterion.name}</span>
+                                </Button>
+                              )}
                             </div>
                           </div>
                           <Progress 
@@ -162,9 +421,75 @@ export function StudentPreview({ files, isOpen, onClose, gradingResults, showRes
                             className="h-1"
                             indicatorClassName={getProgressColor(percentage)}
                           />
-                          <div className="bg-muted/50 rounded-md p-3 mt-2 whitespace-pre-wrap">
-                            {criterion.feedback}
-                          </div>
+                          {criterion.override && (
+                            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                              <span>
+                                AI score {criterion.override.originalScore}/{criterion.maxScore}, changed by{' '}
+                                {criterion.override.overriddenBy} on{' '}
+                                {new Date(criterion.override.overriddenAt).toLocaleString()}
+                              </span>
+                              {onResultChange && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => onResultChange(revertOverride(currentResult, index))}
+                                >
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                  Restore AI Score
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                          {editingIndex === index ? (
+                            <div className="rounded-md border p-3 mt-2 space-y-3">
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max={criterion.maxScore}
+                                  value={draftScore}
+                                  onChange={(e) => setDraftScore(e.target.value)}
+                                  className="w-24 text-right"
+                                  aria-label={`Score for ${criterion.name}`}
+                                />
+                                <span className="text-sm text-muted-foreground">/ {criterion.maxScore}</span>
+                              </div>
+                              <Textarea
+                                value={draftFeedback}
+                                onChange={(e) => setDraftFeedback(e.target.value)}
+                                rows={4}
+                                aria-label={`Feedback for ${criterion.name}`}
+                              />
+                              <div className="flex justify-end gap-2">
+                                <Button variant="outline" size="sm" onClick={() => setEditingIndex(null)}>
+                                  Cancel
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => saveOverride(index)}
+                                  disabled={!isDraftValid(criterion.maxScore)}
+                                >
+                                  Save
+                                </Button>
+                              </div>
+                            </div>
+                          ) : !criterion.override && hasStructuredFeedback(criterion) ? (
+                            <div className="bg-muted/50 rounded-md p-3 mt-2 space-y-3 text-sm">
+                              <FeedbackList title="Strengths" items={criterion.strengths} />
+                              <FeedbackList title="Weaknesses" items={criterion.weaknesses} />
+                              {criterion.analysis && (
+                                <div>
+                                  <p className="font-medium text-muted-foreground">Analysis:</p>
+                                  <p className="pl-2 text-muted-foreground">{criterion.analysis}</p>
+                                </div>
+                              )}
+                              <FeedbackList title="Suggestions" items={criterion.suggestions} />
+                            </div>
+                          ) : (
+                            <div className="bg-muted/50 rounded-md p-3 mt-2 whitespace-pre-wrap">
+                              {criterion.feedback}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -178,95 +503,27 @@ export function StudentPreview({ files, isOpen, onClose, gradingResults, showRes
                   <CardContent>
                     <div className="space-y-2 text-sm">
                       {currentResult.criteria
-                        .filter(c => (c.score / c.maxScore) * 100 < 70)
+                        .filter(c => (c.score / c.maxScore) * 100 < 70 && hasStructuredFeedback(c))
                         .slice(0, 2)
-                        .map((criterion, index) => {
-                          // Parse the feedback sections
-                          const feedbackLines = criterion.feedback.split('\n');
-                          
-                          // Extract all bullet points and split multi-item lines
-                          const bulletPoints = feedbackLines
-                            .filter(line => {
-                              const trimmed = line.trim();
-                              return trimmed.startsWith('•') || 
-                                     trimmed.startsWith('-') || 
-                                     /^\d+\./.test(trimmed);
-                            })
-                            .flatMap(line => {
-                              const trimmed = line.trim();
-                              // If the line contains multiple items separated by " - "
-                              if (trimmed.includes(' - ')) {
-                                // Split by " - " and create separate bullet points
-                                return trimmed.split(' - ').map(item => {
-                                  // Remove the bullet character from the first item
-                                  if (item.startsWith('•') || item.startsWith('-')) {
-                                    return item.substring(1).trim();
-                                  }
-                                  return item.trim();
-                                });
-                              }
-                              // Single item bullet point
-                              return [trimmed.replace(/^[•\-]\s*/, '').replace(/^\d+\.\s*/, '')];
-                            });
-                          
-                          // Get analysis if it exists
-                          const analysisIndex = feedbackLines.findIndex(line => 
-                            line.trim() === 'ANALYSIS:' || 
-                            line.trim() === 'ANALYSIS'
-                          );
-                          
-                          // Extract analysis points if they exist
-                          let analysisPoints: string[] = [];
-                          if (analysisIndex !== -1) {
-                            // Look for bullet points after ANALYSIS:
-                            for (let i = analysisIndex + 1; i < feedbackLines.length; i++) {
-                              const line = feedbackLines[i].trim();
-                              if (line.startsWith('•') || line.startsWith('-') || /^\d+\./.test(line)) {
-                                if (line.includes(' - ')) {
-                                  // Split multi-item analysis lines
-                                  const items = line.split(' - ').map(item => {
-                                    if (item.startsWith('•') || item.startsWith('-')) {
-                                      return item.substring(1).trim();
-                                    }
-                                    return item.trim();
-                                  });
-                                  analysisPoints.push(...items);
-                                } else {
-                                  analysisPoints.push(line.replace(/^[•\-]\s*/, '').replace(/^\d+\.\s*/, ''));
-                                }
-                              } else if (line === 'SUGGESTIONS:' || line === 'SUGGESTIONS') {
-                                break; // Stop when we reach the next section
-                              }
-                            }
-                          }
-                          
-                          return (
-                            <div key={index} className="space-y-1">
-                              <h4 className="font-medium">{criterion.name}:</h4>
-                              {analysisPoints.length > 0 && (
-                                <div className="mb-2">
-                                  <p className="font-medium text-muted-foreground">Analysis:</p>
-                                  <ul className="list-none pl-2 space-y-1 text-muted-foreground">
-                                    {analysisPoints.map((point, i) => (
-                                      <li key={i} className="flex items-start">
-                                        <span className="mr-2">•</span>
-                                        <span>{point}</span>
-                                      </li>
-                                    ))}
-                                  </ul>
-                                </div>
-                              )}
-                              <ul className="list-none pl-2 space-y-1 text-muted-foreground">
-                                {bulletPoints.map((point, i) => (
-                                  <li key={i} className="flex items-start">
-                                    <span className="mr-2">•</span>
-                                    <span>{point}</span>
-                          </li>
+                        .map((criterion, index) => (
+                          <div key={index} className="space-y-1">
+                            <h4 className="font-medium">{criterion.name}:</h4>
+                            {criterion.analysis && (
+                              <div className="mb-2">
+                                <p className="font-medium text-muted-foreground">Analysis:</p>
+                                <p className="pl-2 text-muted-foreground">{criterion.analysis}</p>
+                              </div>
+                            )}
+                            <ul className="list-none pl-2 space-y-1 text-muted-foreground">
+                              {criterion.suggestions.map((point, i) => (
+                                <li key={i} className="flex items-start">
+                                  <span className="mr-2">•</span>
+                                  <span>{point}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
                         ))}
-                    </ul>
-                            </div>
-                          );
-                        })}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,48 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { CriterionAgreement } from "@/lib/calibration"
+
+interface CalibrationReportProps {
+  agreement: CriterionAgreement[]
+}
+
+function formatNumber(value: number | null, signed = false): string {
+  if (value === null) return "—"
+  const text = value.toFixed(2)
+  return signed && value > 0 ? `+${text}` : text
+}
+
+export function CalibrationReport({ agreement }: CalibrationReportProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Criterion</TableHead>
+          <TableHead className="text-right">Exemplars</TableHead>
+          <TableHead className="text-right">Mean difference</TableHead>
+          <TableHead className="text-right">Bias</TableHead>
+          <TableHead className="text-right">Correlation</TableHead>
+          <TableHead></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {agreement.map((row) => (
+          <TableRow key={row.criterionId}>
+            <TableCell className="font-medium">
+              {row.criterion} <span className="text-muted-foreground">/ {row.maxScore}</span>
+            </TableCell>
+            <TableCell className="text-right">{row.count}</TableCell>
+            <TableCell className="text-right">{formatNumber(row.meanAbsoluteDifference)}</TableCell>
+            <TableCell className="text-right">{formatNumber(row.bias, true)}</TableCell>
+            <TableCell className="text-right">{formatNumber(row.correlation)}</TableCell>
+            <TableCell className="text-right">
+              {row.needsAttention && <Badge variant="destructive">Needs attention</Badge>}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
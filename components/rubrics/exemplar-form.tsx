@@ -0,0 +1,170 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { FileUploader } from "@/components/grading/file-uploader"
+import type { GradingLanguage } from "@/lib/languages"
+import { extractSubmissionText, initializeOCR } from "@/lib/processing"
+import { fileToBase64, type Rubric } from "@/lib/storage"
+import type { CalibrationExemplar } from "@/lib/calibration"
+
+interface ExemplarFormProps {
+  rubric: Rubric
+  teacherName: string
+  language: GradingLanguage
+  onSave: (exemplar: CalibrationExemplar) => Promise<boolean> // false when the exemplar could not be saved
+}
+
+// Form for one hand-graded sample paper: its pages, an optional transcription and the teacher's score per criterion
+export function ExemplarForm({ rubric, teacherName, language, onSave }: ExemplarFormProps) {
+  const [name, setName] = useState("")
+  const [files, setFiles] = useState<File[]>([])
+  const [answerText, setAnswerText] = useState("")
+  const [scores, setScores] = useState<Record<string, string>>({})
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [isReading, setIsReading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  // The uploader keeps its own file list, so it is remounted to clear it
+  const [uploaderKey, setUploaderKey] = useState(0)
+
+  const handleReadText = async () => {
+    setIsReading(true)
+    try {
+      await initializeOCR(language)
+      setAnswerText(await extractSubmissionText(files, language))
+    } catch (error) {
+      toast.error("Failed to read text from the files")
+      console.error(error)
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!name.trim() || files.length === 0) {
+      toast.error("Please name the exemplar and upload its pages")
+      return
+    }
+
+    const teacherScores: Record<string, number> = {}
+    for (const criterion of rubric.criteria) {
+      const score = Number(scores[criterion.id])
+      if (scores[criterion.id] === undefined || scores[criterion.id] === "" || Number.isNaN(score) || score < 0 || score > criterion.weight) {
+        toast.error(`Score "${criterion.description}" between 0 and ${criterion.weight}`)
+        return
+      }
+      teacherScores[criterion.id] = score
+    }
+    const teacherFeedback = Object.fromEntries(
+      Object.entries(comments).filter(([, comment]) => comment.trim()).map(([id, comment]) => [id, comment.trim()])
+    )
+
+    setIsSaving(true)
+    try {
+      const saved = await onSave({
+        id: `exemplar-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        rubricId: rubric.id,
+        name: name.trim(),
+        files: await Promise.all(files.map((file) => fileToBase64(file))),
+        fileNames: files.map((file) => file.name),
+        ...(answerText.trim() && { answerText: answerText.trim() }),
+        teacherScores,
+        ...(Object.keys(teacherFeedback).length > 0 && { teacherFeedback }),
+        createdAt: new Date().toISOString(),
+        createdBy: teacherName,
+      })
+      // A failed save keeps the form filled in so the teacher can try again
+      if (!saved) return
+      setName("")
+      setFiles([])
+      setAnswerText("")
+      setScores({})
+      setComments({})
+      setUploaderKey((key) => key + 1)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Add Exemplar</CardTitle>
+        <CardDescription>Grade a sample paper by hand. The AI will grade the same paper so the scores can be compared.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="exemplar-name">Name</Label>
+          <Input
+            id="exemplar-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Sample A - strong answer"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Pages</Label>
+          <FileUploader key={uploaderKey} accept="image/*,.pdf" multiple maxFiles={10} onChange={setFiles} />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="exemplar-text">Transcription (needed to use it as an example)</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleReadText}
+              disabled={files.length === 0 || isReading}
+            >
+              {isReading ? "Reading..." : "Read Text"}
+            </Button>
+          </div>
+          <Textarea
+            id="exemplar-text"
+            value={answerText}
+            onChange={(e) => setAnswerText(e.target.value)}
+            rows={4}
+          />
+        </div>
+        <div className="space-y-3">
+          <Label>Your scores</Label>
+          {rubric.criteria.map((criterion) => (
+            <div key={criterion.id} className="grid grid-cols-[1fr_auto] items-center gap-2">
+              <span className="text-sm">{criterion.description}</span>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  max={criterion.weight}
+                  step="0.5"
+                  value={scores[criterion.id] ?? ""}
+                  onChange={(e) => setScores({ ...scores, [criterion.id]: e.target.value })}
+                  className="w-20 text-right"
+                  aria-label={`Score for ${criterion.description}`}
+                />
+                <span className="text-sm text-muted-foreground">/ {criterion.weight}</span>
+              </div>
+              <Input
+                value={comments[criterion.id] ?? ""}
+                onChange={(e) => setComments({ ...comments, [criterion.id]: e.target.value })}
+                placeholder="Optional comment"
+                className="col-span-2"
+                aria-label={`Comment for ${criterion.description}`}
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving} className="w-full">
+          {isSaving ? "Saving..." : "Save Exemplar"}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
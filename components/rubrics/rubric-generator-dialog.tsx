@@ -0,0 +1,217 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/auth-context"
+import { getSubmissionPages } from "@/lib/pdf"
+import { DEFAULT_GRADING_SETTINGS, getGradingSettings } from "@/lib/settings"
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, type GradingLanguage } from "@/lib/languages"
+import type { GeneratedRubric } from "@/lib/rubric-generation"
+
+interface RubricGeneratorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  subjects: Array<{ value: string; label: string }>
+  onAccept: (rubric: GeneratedRubric, subject: string) => void
+}
+
+export function RubricGeneratorDialog({ open, onOpenChange, subjects, onAccept }: RubricGeneratorDialogProps) {
+  const [subject, setSubject] = useState("")
+  const [language, setLanguage] = useState<GradingLanguage>(DEFAULT_LANGUAGE)
+  const [assignment, setAssignment] = useState("")
+  const [answerKey, setAnswerKey] = useState<File | null>(null)
+  const [proposal, setProposal] = useState<GeneratedRubric | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const { user } = useAuth()
+
+  const handleGenerate = async () => {
+    if (!subject) {
+      toast.error("Please select a subject")
+      return
+    }
+    if (!assignment.trim() && !answerKey) {
+      toast.error("Describe the assignment or upload an answer key")
+      return
+    }
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setIsGenerating(true)
+    try {
+      const { mode, concurrency, ocr, consistency, ...providerSettings } = user ? getGradingSettings(user.id) : DEFAULT_GRADING_SETTINGS
+      const formData = new FormData()
+      formData.append("subject", subject)
+      formData.append("language", language)
+      formData.append("assignment", assignment)
+      formData.append("provider", JSON.stringify(providerSettings))
+      // PDFs are split into page images before anything is sent, as for grading
+      const pages = answerKey ? await getSubmissionPages(answerKey) : []
+      pages.forEach((page) => formData.append("answerKey", page))
+
+      const response = await fetch("/api/rubrics/generate", {
+        method: "POST",
+        body: formData,
+        signal: abortController.signal,
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(data?.error || response.statusText)
+      }
+      setProposal(data.rubric)
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        toast.error(error instanceof Error ? error.message : "Failed to generate rubric")
+        console.error(error)
+      }
+    } finally {
+      abortControllerRef.current = null
+      setIsGenerating(false)
+    }
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      abortControllerRef.current?.abort()
+      setProposal(null)
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleAccept = () => {
+    if (!proposal) return
+    onAccept(proposal, subject)
+    setProposal(null)
+    setAssignment("")
+    setAnswerKey(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[650px]">
+        <DialogHeader>
+          <DialogTitle>Generate Rubric</DialogTitle>
+          <DialogDescription>
+            {proposal
+              ? "Review the proposed criteria. You can change anything before the rubric is saved."
+              : "Describe the assignment or upload its answer key, and the AI will propose criteria, weights and levels."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!proposal ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Subject</Label>
+                <Select value={subject} onValueChange={setSubject}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Language</Label>
+                <Select value={language} onValueChange={(value) => setLanguage(value as GradingLanguage)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a language" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGE_OPTIONS.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignment">Assignment description</Label>
+              <Textarea
+                id="assignment"
+                value={assignment}
+                onChange={(e) => setAssignment(e.target.value)}
+                placeholder="e.g. Write a 500-word persuasive essay on whether homework should be banned"
+                rows={5}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="generator-answer-key">Answer key (optional)</Label>
+              <Input
+                id="generator-answer-key"
+                type="file"
+                accept="image/*,.pdf"
+                onChange={(e) => setAnswerKey(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[450px] pr-4">
+            <div className="space-y-3">
+              <p className="font-medium">{proposal.name}</p>
+              {proposal.criteria.map((criterion, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium">{criterion.description}</span>
+                    <Badge variant="outline">{criterion.weight}%</Badge>
+                  </div>
+                  {criterion.rationale && (
+                    <p className="text-sm text-muted-foreground">{criterion.rationale}</p>
+                  )}
+                  <ul className="space-y-0.5 text-xs text-muted-foreground">
+                    {criterion.levels.map((level, levelIndex) => (
+                      <li key={levelIndex}>
+                        <span className="font-medium text-foreground">{level.name}</span> ({level.minScore}-{level.maxScore}):{" "}
+                        {level.description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {!proposal ? (
+            <Button onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? "Generating..." : "Generate"}
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setProposal(null)}>
+                Back
+              </Button>
+              <Button variant="outline" onClick={handleGenerate} disabled={isGenerating}>
+                {isGenerating ? "Generating..." : "Regenerate"}
+              </Button>
+              <Button onClick={handleAccept}>Edit and Save</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { RotateCcw } from "lucide-react"
+import { getRubricVersions, type Rubric, type RubricVersion } from "@/lib/storage"
+import { diffRubricCriteria, type RubricCriterionChange } from "@/lib/rubrics"
+
+interface RubricHistoryProps {
+  rubric: Rubric
+  onRestore: (version: number) => void
+}
+
+function describeChange(change: RubricCriterionChange) {
+  switch (change.type) {
+    case "added":
+      return { label: "Added", className: "text-green-700", text: `${change.criterion.description} (${change.criterion.weight}%)` }
+    case "removed":
+      return { label: "Removed", className: "text-red-700", text: `${change.criterion.description} (${change.criterion.weight}%)` }
+    case "reweighted":
+      return {
+        label: "Reweighted",
+        className: "text-blue-700",
+        text: `${change.criterion.description}: ${change.previousWeight}% -> ${change.criterion.weight}%`,
+      }
+    case "renamed":
+      return {
+        label: "Renamed",
+        className: "text-muted-foreground",
+        text: `${change.previousDescription} -> ${change.criterion.description}`,
+      }
+    case "levels_changed":
+      return {
+        label: "Levels changed",
+        className: "text-muted-foreground",
+        text: `${change.criterion.description}: ${change.previousLevels.length} -> ${change.criterion.levels?.length ?? 0} level(s)`,
+      }
+  }
+}
+
+export function RubricHistory({ rubric, onRestore }: RubricHistoryProps) {
+  const [versions, setVersions] = useState<RubricVersion[] | null>(null)
+
+  useEffect(() => {
+    setVersions(null)
+    getRubricVersions(rubric.id)
+      .then(setVersions)
+      .catch((error) => {
+        console.error("Error loading rubric versions:", error)
+        setVersions([])
+      })
+  }, [rubric.id, rubric.version])
+
+  if (!versions) {
+    return <p className="text-sm text-muted-foreground">Loading versions...</p>
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground">This rubric has not been saved since version history was added.</p>
+  }
+
+  return (
+    <ScrollArea className="h-[450px] pr-4">
+      <ol className="space-y-3">
+        {versions.map((version, index) => {
+          // Versions are newest first, so the one it changed is next in the list
+          const previous = versions[index + 1]
+          const changes = previous ? diffRubricCriteria(previous.criteria, version.criteria) : []
+          const isCurrent = version.version === rubric.version
+
+          return (
+            <li key={version.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {isCurrent && <Badge variant="outline">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(version.savedAt).toLocaleString()} by {version.savedBy}
+                    {version.note && ` - ${version.note}`}
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <Button variant="outline" size="sm" onClick={() => onRestore(version.version)}>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              {!previous ? (
+                <p className="text-sm text-muted-foreground">First version with {version.criteria.length} criteria</p>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {version.name !== previous.name ? `Renamed from ${previous.name}` : "No criterion changes"}
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {changes.map((change, changeIndex) => {
+                    const { label, className, text } = describeChange(change)
+                    return (
+                      <li key={changeIndex}>
+                        <span className={`font-medium ${className}`}>{label}:</span> {text}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </ScrollArea>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { saveRubric, type Rubric } from "@/lib/storage"
+import { resolveImportedRubric, type ImportedRubric, type RubricImportResolution } from "@/lib/rubric-transfer"
+
+interface RubricImportDialogProps {
+  fileName: string
+  imported: ImportedRubric[] | null
+  existingRubrics: Rubric[]
+  author?: string
+  onClose: () => void
+  onImported: () => void
+}
+
+export function RubricImportDialog({ fileName, imported, existingRubrics, author, onClose, onImported }: RubricImportDialogProps) {
+  const [resolutions, setResolutions] = useState<Record<string, RubricImportResolution>>({})
+  const [isImporting, setIsImporting] = useState(false)
+
+  useEffect(() => {
+    setResolutions({})
+  }, [imported])
+
+  const findExisting = (rubric: Rubric) => existingRubrics.find((existing) => existing.id === rubric.id)
+
+  // Conflicts default to importing a copy, so nothing is overwritten unless the teacher asks for it
+  const resolutionFor = (rubric: Rubric): RubricImportResolution => resolutions[rubric.id] ?? "copy"
+
+  const importable = (imported ?? []).filter(
+    ({ rubric, problems }) => problems.length === 0 && (!findExisting(rubric) || resolutionFor(rubric) !== "skip")
+  )
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    let saved = 0
+    try {
+      for (const { rubric } of importable) {
+        const resolved = resolveImportedRubric(rubric, findExisting(rubric), resolutionFor(rubric))
+        if (!resolved) continue
+        await saveRubric(resolved, author, `Imported from ${fileName}`)
+        saved++
+      }
+      toast.success(`Imported ${saved} rubric(s)`)
+      onImported()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import rubrics")
+      console.error(error)
+      if (saved > 0) onImported()
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!imported} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[650px]">
+        <DialogHeader>
+          <DialogTitle>Import Rubrics</DialogTitle>
+          <DialogDescription>
+            Review the rubrics in {fileName} before saving them. Rubrics with problems are not imported.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[450px] pr-4">
+          <ul className="space-y-3">
+            {(imported ?? []).map(({ rubric, problems }, index) => {
+              const existing = findExisting(rubric)
+              const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0)
+
+              return (
+                <li key={index} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{rubric.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {rubric.subject || "No subject"} • {rubric.criteria.length} criteria • {totalWeight}%
+                      </p>
+                    </div>
+                    {problems.length > 0 ? (
+                      <Badge className="bg-red-100 text-red-800">Invalid</Badge>
+                    ) : existing ? (
+                      <Badge className="bg-orange-100 text-orange-800">Conflict</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800">New</Badge>
+                    )}
+                  </div>
+                  {problems.length > 0 && (
+                    <ul className="list-disc pl-5 text-sm text-red-700">
+                      {problems.map((problem, problemIndex) => (
+                        <li key={problemIndex}>{problem}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {problems.length === 0 && existing && (
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">
+                        Same id as &quot;{existing.name}&quot;
+                        {existing.version !== undefined && ` (version ${existing.version})`}
+                      </span>
+                      <Select
+                        value={resolutionFor(rubric)}
+                        onValueChange={(value) =>
+                          setResolutions({ ...resolutions, [rubric.id]: value as RubricImportResolution })
+                        }
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="copy">Import as copy</SelectItem>
+                          {!existing.isTemplate && <SelectItem value="replace">Replace (new version)</SelectItem>}
+                          <SelectItem value="skip">Skip</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <ol className="list-decimal pl-5 text-sm">
+                    {rubric.criteria.map((criterion, criterionIndex) => (
+                      <li key={criterionIndex}>
+                        {criterion.description} ({criterion.weight}%)
+                        {criterion.levels && criterion.levels.length > 0 && (
+                          <span className="text-muted-foreground"> • {criterion.levels.length} levels</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </li>
+              )
+            })}
+          </ul>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importable.length === 0 || isImporting}>
+            {isImporting ? "Importing..." : `Import ${importable.length} Rubric(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,147 @@
+import type { ProviderCallRecord } from './providers';
+import type { StudentResult } from './processing';
+import { appendAuditEvent, type GradingSession } from './storage';
+
+export type AuditEventType =
+  | 'session_created'
+  | 'rubric_snapshot'
+  | 'grading_started'
+  | 'model_call'
+  | 'retry'
+  | 'score_parsed'
+  | 'grading_failed'
+  | 'grading_finished'
+  | 'manual_score'
+  | 'override'
+  | 'override_reverted';
+
+// One entry in a session's append-only history, kept for grade disputes
+export interface AuditEvent {
+  id: string;
+  sessionId: string;
+  type: AuditEventType;
+  timestamp: string; // ISO timestamp
+  student?: string; // submission name, for events about one student
+  data: Record<string, unknown>;
+}
+
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'sessionId' | 'timestamp'> & { timestamp?: string };
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  session_created: 'Session created',
+  rubric_snapshot: 'Rubric used',
+  grading_started: 'Grading started',
+  model_call: 'Model call',
+  retry: 'Retry',
+  score_parsed: 'Scores parsed',
+  grading_failed: 'Grading failed',
+  grading_finished: 'Grading finished',
+  manual_score: 'Manual score',
+  override: 'Override',
+  override_reverted: 'Override reverted'
+};
+
+export function createAuditEvent(sessionId: string, input: AuditEventInput): AuditEvent {
+  return {
+    ...input,
+    id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    sessionId,
+    timestamp: input.timestamp ?? new Date().toISOString()
+  };
+}
+
+// Function to append events to a session's log. Logging never interrupts grading, so failures are only reported.
+export async function logAuditEvents(sessionId: string, events: AuditEventInput[]): Promise<void> {
+  for (const event of events) {
+    try {
+      await appendAuditEvent(createAuditEvent(sessionId, event));
+    } catch (error) {
+      console.error('Error writing audit event:', error);
+    }
+  }
+}
+
+// Function to describe a newly created session and the rubric it will be graded with
+export function sessionCreatedEvents(session: GradingSession): AuditEventInput[] {
+  return [
+    {
+      type: 'session_created',
+      data: {
+        sessionName: session.sessionName,
+        subject: session.subject,
+        language: session.language,
+        students: (session.studentGroups ?? session.studentFiles).length,
+        files: session.studentFiles.length,
+        hasAnswerKey: !!session.answerKeyFile
+      }
+    },
+    {
+      type: 'rubric_snapshot',
+      data: {
+        rubric: session.rubric,
+        ...(session.rubricText && { rubricText: session.rubricText }),
+        exam: session.exam
+      }
+    }
+  ];
+}
+
+// Function to turn the provider calls made for one request into events; retried calls are logged as retries first
+export function providerCallEvents(student: string, calls: ProviderCallRecord[] = []): AuditEventInput[] {
+  return calls.flatMap(call => {
+    const { startedAt, ...data } = call;
+    const event: AuditEventInput = { type: 'model_call', student, timestamp: startedAt, data };
+    return call.attempt > 1
+      ? [{
+          type: 'retry' as const,
+          student,
+          timestamp: startedAt,
+          data: { attempt: call.attempt, model: call.model, ...(call.run !== undefined && { run: call.run }) }
+        }, event]
+      : [event];
+  });
+}
+
+// Function to describe a teacher's changes to a set of results as events, matching students by result id
+export function resultChangeEvents(before: StudentResult[], after: StudentResult[], teacher: string): AuditEventInput[] {
+  const events: AuditEventInput[] = [];
+
+  for (const result of after) {
+    const previous = before.find(existing => existing.id === result.id);
+    if (!previous) continue;
+
+    result.criteria.forEach((criterion, index) => {
+      const old = previous.criteria[index];
+      if (!old) return;
+      const base = { criterion: criterion.name, maxScore: criterion.maxScore, teacher };
+
+      if (criterion.override && criterion.override.overriddenAt !== old.override?.overriddenAt) {
+        events.push({
+          type: 'override',
+          student: result.name,
+          data: {
+            ...base,
+            previousScore: old.score,
+            score: criterion.score,
+            feedback: criterion.feedback,
+            originalScore: criterion.override.originalScore
+          }
+        });
+      } else if (!criterion.override && old.override) {
+        events.push({
+          type: 'override_reverted',
+          student: result.name,
+          data: { ...base, previousScore: old.score, score: criterion.score }
+        });
+      } else if (old.status === 'needs_review' && criterion.status === 'graded') {
+        events.push({
+          type: 'manual_score',
+          student: result.name,
+          data: { ...base, score: criterion.score, error: old.error }
+        });
+      }
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,114 @@
+import { diffRubricCriteria } from './rubrics';
+import type { Rubric, RubricCriterion, RubricExample } from './storage';
+
+// A sample paper the teacher graded by hand, kept per rubric so the AI can be checked against it.
+// Scores are keyed by criterion id, which stays the same across rubric versions.
+export interface CalibrationExemplar {
+  id: string;
+  rubricId: string;
+  name: string;
+  files: string[]; // base64 pages, as on grading sessions
+  fileNames: string[];
+  answerText?: string; // transcription of the answer; needed to use the exemplar as a few-shot example
+  teacherScores: Record<string, number>;
+  teacherFeedback?: Record<string, string>;
+  aiScores?: Record<string, number>; // from the latest calibration run
+  aiRubricVersion?: number; // rubric version the AI scores were produced with
+  aiCriteria?: RubricCriterion[]; // criteria the AI scores were produced with
+  calibratedAt?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+// Agreement between teacher and AI scores for one criterion, over the exemplars both scored
+export interface CriterionAgreement {
+  criterionId: string;
+  criterion: string;
+  maxScore: number;
+  count: number;
+  meanAbsoluteDifference: number | null;
+  bias: number | null; // mean of AI minus teacher; positive means the AI scores higher
+  correlation: number | null; // Pearson; null with fewer than two exemplars or when either side never varies
+  needsAttention: boolean;
+}
+
+// A criterion needs attention when the AI is off by more than this share of its points on average
+export const DISAGREEMENT_THRESHOLD = 0.15;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Function to compute the Pearson correlation of two equally long lists
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2 || xs.length !== ys.length) {
+    return null;
+  }
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, index) => {
+    const dx = x - meanX;
+    const dy = ys[index] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  });
+  if (varianceX === 0 || varianceY === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Function to compare teacher and AI scores criterion by criterion; exemplars without AI scores are skipped
+export function computeAgreement(criteria: RubricCriterion[], exemplars: CalibrationExemplar[]): CriterionAgreement[] {
+  return criteria.map(criterion => {
+    const pairs = exemplars
+      .filter(exemplar => exemplar.teacherScores[criterion.id] !== undefined && exemplar.aiScores?.[criterion.id] !== undefined)
+      .map(exemplar => ({ teacher: exemplar.teacherScores[criterion.id], ai: exemplar.aiScores![criterion.id] }));
+
+    const differences = pairs.map(pair => pair.ai - pair.teacher);
+    const meanAbsoluteDifference = pairs.length > 0 ? mean(differences.map(Math.abs)) : null;
+    return {
+      criterionId: criterion.id,
+      criterion: criterion.description,
+      maxScore: criterion.weight,
+      count: pairs.length,
+      meanAbsoluteDifference,
+      bias: pairs.length > 0 ? mean(differences) : null,
+      correlation: pearsonCorrelation(pairs.map(pair => pair.teacher), pairs.map(pair => pair.ai)),
+      needsAttention: meanAbsoluteDifference !== null && meanAbsoluteDifference > criterion.weight * DISAGREEMENT_THRESHOLD
+    };
+  });
+}
+
+// AI scores are outdated once the criteria they were produced with have changed. Saving examples also
+// bumps the rubric version, so the version alone is only compared for exemplars calibrated without a snapshot.
+export function hasOutdatedAiScores(exemplar: CalibrationExemplar, rubric: Rubric): boolean {
+  if (!exemplar.aiScores) {
+    return false;
+  }
+  return exemplar.aiCriteria
+    ? diffRubricCriteria(exemplar.aiCriteria, rubric.criteria).length > 0
+    : exemplar.aiRubricVersion !== (rubric.version ?? 1);
+}
+
+// Function to turn exemplars into the few-shot examples stored on a rubric; only exemplars with a transcription qualify
+export function toRubricExamples(rubric: Rubric, exemplars: CalibrationExemplar[]): RubricExample[] {
+  return exemplars
+    .filter(exemplar => exemplar.answerText?.trim())
+    .map(exemplar => ({
+      id: exemplar.id,
+      name: exemplar.name,
+      answer: exemplar.answerText!.trim(),
+      scores: rubric.criteria
+        .filter(criterion => exemplar.teacherScores[criterion.id] !== undefined)
+        .map(criterion => ({
+          criterionId: criterion.id,
+          score: exemplar.teacherScores[criterion.id],
+          ...(exemplar.teacherFeedback?.[criterion.id] && { feedback: exemplar.teacherFeedback[criterion.id] })
+        }))
+    }));
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+export interface ExamQuestion {
+  id: string;
+  prompt: string;
+  maxScore: number; // points for this question
+  answerKey?: string; // this question's segment of the answer key
+}
+
+// Optional list of questions; when a session has one, students are scored question by question
+export interface ExamDefinition {
+  questions: ExamQuestion[];
+}
+
+export const examSchema = z.object({
+  questions: z.array(z.object({
+    id: z.string(),
+    prompt: z.string().default(''),
+    maxScore: z.number().positive(),
+    answerKey: z.string().optional()
+  })).min(1)
+});
+
+// Line-start markers such as "1.", "2)", "Q3", "Question 4:" or the Thai "ข้อ 5"
+const QUESTION_MARKER = /^\s*(?:(?:question|q|ข้อ)\s*(\d+)\s*[:.)-]?|(\d+)\s*[.)])\s*/i;
+
+// Function to split a full answer key into one segment per question using its numbering.
+// Text before the first marker and numbers beyond the exam are ignored.
+export function segmentAnswerKey(text: string, questionCount: number): string[] {
+  const segments: string[][] = Array.from({ length: questionCount }, () => []);
+  let current = -1;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(QUESTION_MARKER);
+    if (match) {
+      const number = parseInt(match[1] ?? match[2], 10);
+      current = number >= 1 && number <= questionCount ? number - 1 : -1;
+      const rest = line.slice(match[0].length);
+      if (current >= 0 && rest.trim()) {
+        segments[current].push(rest);
+      }
+      continue;
+    }
+    if (current >= 0) {
+      segments[current].push(line);
+    }
+  }
+
+  return segments.map(lines => lines.join('\n').trim());
+}
+
+export function createExamQuestion(maxScore: number = 10): ExamQuestion {
+  return {
+    id: `question-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    prompt: '',
+    maxScore
+  };
+}
+
+export function totalExamPoints(exam: ExamDefinition): number {
+  return exam.questions.reduce((sum, question) => sum + question.maxScore, 0);
+}
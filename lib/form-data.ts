@@ -0,0 +1,11 @@
+// Function to read a JSON-encoded form field; missing, empty or malformed fields come back as undefined
+export function parseJSONField(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,854 @@
+import { z } from 'zod';
+import { ExamDefinition, totalExamPoints } from './exams';
+import { DEFAULT_LANGUAGE, GradingLanguage, getLanguageOption } from './languages';
+import { GradingProvider, ProviderAttachment, getGradingProvider } from './providers';
+
+// A band of a criterion such as Excellent or Developing, with the points it covers
+export interface PerformanceLevel {
+  name: string;
+  description: string;
+  minScore: number;
+  maxScore: number;
+}
+
+// An answer the teacher scored by hand, shown to the model as a reference for how the criterion is applied
+export interface GradedExample {
+  answer: string;
+  score: number;
+  feedback?: string;
+}
+
+export interface GradingCriterion {
+  name: string;
+  maxScore: number;
+  levels?: PerformanceLevel[];
+  examples?: GradedExample[];
+}
+
+// Shape the model is asked to return for each criterion
+export const gradingResponseSchema = z.object({
+  score: z.number().min(0),
+  level: z.string().optional(), // name of the chosen performance level, when the criterion has levels
+  strengths: z.array(z.string()).default([]),
+  weaknesses: z.array(z.string()).default([]),
+  analysis: z.string().default(''),
+  suggestions: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1).optional() // the model's own estimate of how sure it is of the score
+});
+
+export type GradingResponse = z.infer<typeof gradingResponseSchema>;
+
+// needs_review means the AI could not score the criterion and a teacher has to
+export type ResultStatus = 'graded' | 'needs_review';
+
+// A teacher's change to a graded criterion; the AI's own score and feedback are kept here
+export interface CriterionOverride {
+  originalScore: number;
+  originalFeedback: string;
+  overriddenBy: string; // teacher's name at the time of the change
+  overriddenAt: string; // ISO timestamp
+}
+
+// Scores from grading a criterion several times; the reported score is their median
+export interface ConsistencyCheck {
+  scores: number[]; // one per run that returned a score, in run order
+  spread: number; // highest minus lowest score
+  runs: number; // runs attempted, including any that failed
+}
+
+// How far a criterion's score can be trusted, from 0 to 1. The value is the lowest of the factors
+// that were measured, since one weak signal is enough to make the score doubtful.
+export interface ConfidenceScore {
+  value: number;
+  model?: number; // the model's self-report
+  sampling?: number; // agreement between consistency runs: 1 minus the spread as a share of the points
+  ocr?: number; // the OCR engine's confidence in the answer text
+}
+
+// Criteria below this confidence are offered for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface CriterionResult extends Omit<GradingResponse, 'confidence'> {
+  name: string;
+  maxScore: number;
+  feedback: string; // plain-text rendering of the structured fields, or the teacher's feedback when overridden
+  status: ResultStatus;
+  error?: string;
+  override?: CriterionOverride;
+  consistency?: ConsistencyCheck; // only when graded in consistency mode
+  confidence?: ConfidenceScore;
+}
+
+type CriterionGrade = Omit<CriterionResult, 'name' | 'maxScore'>;
+
+// combined sends the whole rubric in one call; per_criterion makes one call per criterion
+export type GradingMode = 'combined' | 'per_criterion';
+
+// Consistency mode grades each criterion several times and flags it for review when the runs
+// disagree by more than `threshold`, a share of the criterion's points
+export const consistencyOptionsSchema = z.object({
+  samples: z.number().int().min(2).max(7),
+  threshold: z.number().min(0).max(1)
+});
+
+export type ConsistencyOptions = z.infer<typeof consistencyOptionsSchema>;
+
+const combinedResponseSchema = z.object({
+  criteria: z.array(gradingResponseSchema.extend({ name: z.string() }))
+});
+
+// One entry per exam question, in the shape the results page renders
+export interface QuestionResult extends Omit<GradingResponse, 'confidence'> {
+  questionId: string;
+  question: string;
+  answer: string; // the student's answer as read by the model
+  maxScore: number;
+  feedback: string;
+  status: ResultStatus;
+  criteria: Array<{ name: string; score: number; maxScore: number }>;
+  error?: string;
+  confidence?: ConfidenceScore;
+}
+
+const examResponseSchema = z.object({
+  questions: z.array(gradingResponseSchema.omit({ score: true, level: true }).extend({
+    number: z.number(),
+    answer: z.string().default(''),
+    criteria: z.array(z.object({ name: z.string(), score: z.number().min(0) }))
+  }))
+});
+
+// Function to convert File to a provider attachment
+// Uses arrayBuffer rather than FileReader so it also runs in the API route
+export async function fileToAttachment(file: File): Promise<ProviderAttachment> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return {
+    mimeType: file.type,
+    data: btoa(binary)
+  };
+}
+
+// Function to delay execution; an aborted signal ends the wait early
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Cancelled requests are not grading failures and must not be flagged for review
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Function to combine the measured confidence factors; returns nothing when none were measured
+export function combineConfidence(factors: Omit<ConfidenceScore, 'value'>): ConfidenceScore | undefined {
+  const round = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+  const measured = Object.fromEntries(
+    Object.entries(factors)
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && !isNaN(entry[1]))
+      .map(([factor, value]) => [factor, round(value)])
+  );
+  const values = Object.values(measured);
+  if (values.length === 0) {
+    return undefined;
+  }
+  return { value: Math.min(...values), ...measured };
+}
+
+// A teacher's override replaces the AI score, so only untouched criteria can be low confidence
+export function isLowConfidence(criterion: Pick<CriterionResult, 'confidence' | 'override'>): boolean {
+  return !criterion.override && !!criterion.confidence && criterion.confidence.value < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// Quota and rate-limit errors are worth retrying later, unlike other provider failures
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof Error &&
+    (error.message.includes('429') ||
+     error.message.includes('RESOURCE_EXHAUSTED') ||
+     error.message.includes('quota'));
+}
+
+// Function to retry with exponential backoff; fn is given the attempt number, starting at 1
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  maxRetries: number = 3,
+  initialDelay: number = 1000,
+  onRateLimit?: (delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  let retries = 0;
+  let currentDelay = initialDelay;
+  
+  while (true) {
+    try {
+      return await fn(retries + 1);
+    } catch (error) {
+      retries++;
+      
+      if (isRateLimitError(error) && retries <= maxRetries) {
+        console.log(`Rate limit hit, retrying in ${currentDelay}ms (attempt ${retries}/${maxRetries})`);
+        onRateLimit?.(currentDelay);
+        await delay(currentDelay, signal);
+        signal?.throwIfAborted();
+        currentDelay *= 2; // Exponential backoff
+        continue;
+      }
+      
+      // If it's not a rate limit error or we've exhausted retries, rethrow
+      throw error;
+    }
+  }
+}
+
+// Function to call the AI API with the student's page images, followed by any answer key pages
+export async function callAIAPIWithFile(
+  pages: File[],
+  prompt: string,
+  answerKey: File[] = [],
+  provider: GradingProvider = getGradingProvider(),
+  maxOutputTokens: number = 1024,
+  signal?: AbortSignal
+): Promise<string> {
+  try {
+    // Convert files to base64
+    const attachments = await Promise.all([...pages, ...answerKey].map(fileToAttachment));
+
+    return await retryWithBackoff(attempt => provider.generate({
+      prompt,
+      attachments,
+      temperature: 0.3,
+      maxOutputTokens,
+      responseFormat: 'json',
+      signal,
+      attempt
+    }), 3, 1000, undefined, signal);
+  } catch (error) {
+    console.error('Error calling AI API:', error);
+    throw error;
+  }
+}
+
+// Function to pull the JSON object out of a model response
+export function parseJSONResponse(response: string): unknown {
+  // Some models wrap JSON in a markdown code fence even when asked not to
+  const jsonText = response.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    console.error('AI response was not valid JSON:', response);
+    throw new Error('AI response was not valid JSON');
+  }
+}
+
+// Function to validate a single-criterion response
+export function parseGradingResponse(response: string, maxScore: number): GradingResponse {
+  const data = parseJSONResponse(response);
+
+  const parsed = gradingResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error('AI response did not match the grading schema:', parsed.error.issues);
+    throw new Error('AI response did not match the grading schema');
+  }
+
+  if (parsed.data.score > maxScore) {
+    console.error('Invalid score in AI response:', parsed.data.score);
+    throw new Error('AI response contained an invalid score');
+  }
+
+  return parsed.data;
+}
+
+// Function to render structured feedback as text for exports and older views
+export function formatFeedback(response: GradingResponse): string {
+  const bullets = (items: string[]) => items.map(item => `  • ${item}`).join('\n');
+
+  return [
+    `SCORE: ${response.score}`,
+    ...(response.level ? [`LEVEL: ${response.level}`] : []),
+    `STRENGTHS:\n${bullets(response.strengths)}`,
+    `WEAKNESSES:\n${bullets(response.weaknesses)}`,
+    `ANALYSIS:\n  ${response.analysis}`,
+    `SUGGESTIONS:\n${bullets(response.suggestions)}`
+  ].join('\n\n');
+}
+
+// Page images of a student answer or answer key, plus the OCR text when the OCR stage ran
+export interface GradingDocument {
+  pages: File[];
+  text?: string;
+}
+
+// Function to decide what a provider is sent: page images when it can read them, OCR text otherwise.
+// Returns the images to attach and prompt lines describing them.
+function prepareDocuments(answer: GradingDocument, answerKey: GradingDocument | undefined, provider: GradingProvider) {
+  if (!provider.supportsImages && !answer.text) {
+    throw new Error(`${provider.name} cannot read images. Turn on OCR in Settings so answers are sent as text`);
+  }
+
+  const pages = provider.supportsImages ? answer.pages : [];
+  const answerKeyPages = provider.supportsImages ? answerKey?.pages ?? [] : [];
+  const notes: string[] = [];
+  if (pages.length > 1) {
+    notes.push(`The student's answer spans the first ${pages.length} images, in page order; grade them together as one submission.`);
+  }
+  if (answerKeyPages.length > 1) {
+    notes.push(`The last ${answerKeyPages.length} images are the answer key.`);
+  }
+  if (answer.text) {
+    const caveat = pages.length > 0 ? ' It may contain recognition errors; the images take precedence.' : '';
+    notes.push(`Text recognized from the student's answer by OCR.${caveat}\n"""\n${answer.text}\n"""`);
+  }
+  if (answerKey?.text && answerKeyPages.length === 0) {
+    notes.push(`Text of the answer key:\n"""\n${answerKey.text}\n"""`);
+  }
+
+  return {
+    pages,
+    answerKeyPages,
+    hasAnswerKey: answerKeyPages.length > 0 || !!answerKey?.text,
+    context: notes.join('\n')
+  };
+}
+
+// Function to list a criterion's performance levels for the prompt, one per line
+function describeLevels(levels: PerformanceLevel[] = [], indent: string = '      '): string {
+  return levels
+    .map(level => `${indent}* ${level.name} (${level.minScore}-${level.maxScore} points): ${level.description}`)
+    .join('\n');
+}
+
+// Long example answers are cut so a few examples can't crowd out the student's own answer
+const EXAMPLE_ANSWER_LIMIT = 1200;
+
+// Function to list teacher-graded examples for the prompt, one per line with the answer flattened
+function describeExamples(examples: GradedExample[] = [], indent: string = '      '): string {
+  return examples
+    .map(example => {
+      const flattened = example.answer.replace(/\s+/g, ' ').trim();
+      const answer = flattened.length > EXAMPLE_ANSWER_LIMIT ? `${flattened.slice(0, EXAMPLE_ANSWER_LIMIT)}...` : flattened;
+      const comment = example.feedback ? ` Teacher's comment: ${example.feedback}` : '';
+      return `${indent}> Teacher gave ${example.score} points to: "${answer}"${comment}`;
+    })
+    .join('\n');
+}
+
+// Function to describe one criterion in a rubric list, with its levels and examples underneath
+function describeRubricCriterion(criterion: GradingCriterion): string {
+  return [
+    `- ${criterion.name} (score between 0 and ${criterion.maxScore})`,
+    ...(criterion.levels?.length ? [describeLevels(criterion.levels)] : []),
+    ...(criterion.examples?.length ? [describeExamples(criterion.examples)] : [])
+  ].join('\n');
+}
+
+// Function to resolve the level the model named to one of the criterion's levels; unknown names are dropped
+function matchLevel(levels: PerformanceLevel[] | undefined, level: string | undefined): string | undefined {
+  if (!levels?.length || !level) {
+    return undefined;
+  }
+  return levels.find(candidate => candidate.name.trim().toLowerCase() === level.trim().toLowerCase())?.name;
+}
+
+// Asked for alongside every score; low values send the criterion to the teacher
+const CONFIDENCE_INSTRUCTION = 'how sure you are of the score; lower it when the answer is hard to read, ambiguous or borderline between levels';
+
+// Criterion names and JSON keys stay as written so results can be matched back to the rubric
+function languageInstruction(language: GradingLanguage): string {
+  const { promptName } = getLanguageOption(language);
+  return `Write the strengths, weaknesses, analysis and suggestions in ${promptName}. Keep the JSON keys and criterion names exactly as given.`;
+}
+
+// Function to grade a single criterion of a student submission
+export async function gradeCriterion(
+  answer: GradingDocument,
+  criterion: GradingCriterion,
+  subject: string,
+  answerKey?: GradingDocument,
+  provider: GradingProvider = getGradingProvider(),
+  language: GradingLanguage = DEFAULT_LANGUAGE,
+  signal?: AbortSignal
+): Promise<CriterionGrade> {
+  const { name: criterionName, maxScore, levels, examples } = criterion;
+  try {
+    const documents = prepareDocuments(answer, answerKey, provider);
+    const task = documents.hasAnswerKey
+      ? `Compare the student's answer with the provided answer key and evaluate based on: ${criterionName}.
+      In the analysis, highlight similarities and differences between the student's answer and the answer key.`
+      : `Evaluate this exam based on: ${criterionName}.`;
+
+    const prompt = `You are a kind and helpful expert ${subject} grader. ${task}
+      ${documents.context}${levels?.length ? `
+      Performance levels for this criterion:
+${describeLevels(levels)}
+      Choose the level that best describes the answer, then give a score within that level's points.` : ''}${examples?.length ? `
+      Answers the teacher has already graded for this criterion; score consistently with them:
+${describeExamples(examples)}` : ''}
+      If it does not look like an exam, give a score of 0 and explain why in the analysis.
+      Respond with a single JSON object and nothing else, using this schema:
+      {
+        "score": number between 0 and ${maxScore},${levels?.length ? `
+        "level": string (one of the level names above),` : ''}
+        "strengths": string[],
+        "weaknesses": string[],
+        "analysis": string,
+        "suggestions": string[],
+        "confidence": number between 0 and 1 (${CONFIDENCE_INSTRUCTION})
+      }
+      Keep each list item to one short sentence without markdown.
+      ${languageInstruction(language)}`;
+
+    const response = await callAIAPIWithFile(documents.pages, prompt, documents.answerKeyPages, provider, 1024, signal);
+    const { confidence, ...parsed } = parseGradingResponse(response, maxScore);
+    parsed.level = matchLevel(levels, parsed.level);
+    const confidenceScore = combineConfidence({ model: confidence });
+
+    return {
+      ...parsed,
+      feedback: formatFeedback(parsed),
+      status: 'graded',
+      ...(confidenceScore && { confidence: confidenceScore })
+    };
+  } catch (error: unknown) {
+    // Cancellations and rate limits that outlasted the retries go back to the caller, which can wait and try again
+    if (isAbortError(error) || isRateLimitError(error)) {
+      throw error;
+    }
+    console.error('AI grading error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const { name: _name, maxScore: _maxScore, ...grade } = needsReviewResult({ name: criterionName, maxScore }, errorMessage);
+    return grade;
+  }
+}
+
+// Function to build the placeholder result for a criterion the AI could not score
+export function needsReviewResult(criterion: GradingCriterion, errorMessage: string): CriterionResult {
+  return {
+    name: criterion.name,
+    maxScore: criterion.maxScore,
+    score: 0,
+    strengths: [],
+    weaknesses: [],
+    analysis: '',
+    suggestions: [],
+    feedback: `Unable to perform AI grading: ${errorMessage}. Please enter the score manually.`,
+    status: 'needs_review',
+    error: errorMessage
+  };
+}
+
+// Function to grade every criterion of a student submission with one AI call
+export async function gradeAllCriteria(
+  answer: GradingDocument,
+  criteria: GradingCriterion[],
+  subject: string,
+  answerKey?: GradingDocument,
+  provider: GradingProvider = getGradingProvider(),
+  language: GradingLanguage = DEFAULT_LANGUAGE,
+  signal?: AbortSignal
+): Promise<CriterionResult[]> {
+  let documents: ReturnType<typeof prepareDocuments>;
+  try {
+    documents = prepareDocuments(answer, answerKey, provider);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return criteria.map(criterion => needsReviewResult(criterion, errorMessage));
+  }
+
+  const task = documents.hasAnswerKey
+    ? `Compare the student's answer with the provided answer key and evaluate it against each rubric criterion below.
+    In each analysis, highlight similarities and differences between the student's answer and the answer key.`
+    : `Evaluate this exam against each rubric criterion below.`;
+
+  const hasLevels = criteria.some(criterion => criterion.levels?.length);
+  const hasExamples = criteria.some(criterion => criterion.examples?.length);
+  const rubric = criteria.map(describeRubricCriterion).join('\n');
+
+  const prompt = `You are a kind and helpful expert ${subject} grader. ${task}
+    ${documents.context}
+    If it does not look like an exam, give every criterion a score of 0 and explain why in the analysis.
+    Rubric criteria:
+${rubric}${hasLevels ? `
+    For criteria with performance levels, choose the level that best describes the answer and score within its points.` : ''}${hasExamples ? `
+    Lines starting with ">" are answers the teacher has already graded; score consistently with them.` : ''}
+    Respond with a single JSON object and nothing else, using this schema:
+    {
+      "criteria": [
+        {
+          "name": string (exactly as written in the rubric),
+          "score": number,${hasLevels ? `
+          "level": string (the chosen level name, for criteria with levels),` : ''}
+          "strengths": string[],
+          "weaknesses": string[],
+          "analysis": string,
+          "suggestions": string[],
+          "confidence": number between 0 and 1 (${CONFIDENCE_INSTRUCTION})
+        }
+      ]
+    }
+    Include one entry per rubric criterion. Keep each list item to one short sentence without markdown.
+    ${languageInstruction(language)}`;
+
+  let entries: z.infer<typeof combinedResponseSchema>['criteria'];
+  try {
+    const response = await callAIAPIWithFile(
+      documents.pages,
+      prompt,
+      documents.answerKeyPages,
+      provider,
+      Math.min(8192, 1024 * criteria.length),
+      signal
+    );
+    const parsed = combinedResponseSchema.safeParse(parseJSONResponse(response));
+    if (!parsed.success) {
+      console.error('AI response did not match the grading schema:', parsed.error.issues);
+      throw new Error('AI response did not match the grading schema');
+    }
+    entries = parsed.data.criteria;
+  } catch (error: unknown) {
+    // Cancellations and rate limits that outlasted the retries go back to the caller, which can wait and try again
+    if (isAbortError(error) || isRateLimitError(error)) {
+      throw error;
+    }
+    console.error('AI grading error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return criteria.map(criterion => needsReviewResult(criterion, errorMessage));
+  }
+
+  // Match entries by name, falling back to rubric order
+  return criteria.map((criterion, index) => {
+    const normalize = (name: string) => name.trim().toLowerCase();
+    const entry = entries.find(item => normalize(item.name) === normalize(criterion.name)) ?? entries[index];
+
+    if (!entry) {
+      return needsReviewResult(criterion, 'AI response did not include this criterion');
+    }
+    if (entry.score > criterion.maxScore) {
+      console.error('Invalid score in AI response:', entry.score);
+      return needsReviewResult(criterion, 'AI response contained an invalid score');
+    }
+
+    const { name: _name, confidence, ...grade } = entry;
+    grade.level = matchLevel(criterion.levels, grade.level);
+    const confidenceScore = combineConfidence({ model: confidence });
+    return {
+      name: criterion.name,
+      maxScore: criterion.maxScore,
+      ...grade,
+      feedback: formatFeedback(grade),
+      status: 'graded' as const,
+      ...(confidenceScore && { confidence: confidenceScore })
+    };
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Function to merge several gradings of the same criterion into one result.
+// The score is the median of the runs that succeeded, with the feedback of the run closest to it;
+// a spread above the threshold sends the criterion to the review queue. Confidence averages the
+// model's self-reports and adds how well the runs agreed.
+export function combineRuns(runs: CriterionResult[], threshold: number): CriterionResult {
+  const graded = runs.filter(run => run.status === 'graded');
+  if (graded.length === 0) {
+    return runs[0];
+  }
+
+  const scores = graded.map(run => run.score);
+  const score = Math.round(median(scores) * 10) / 10;
+  const spread = Math.max(...scores) - Math.min(...scores);
+  const closest = graded.reduce((best, run) => Math.abs(run.score - score) < Math.abs(best.score - score) ? run : best);
+  const grade: Omit<GradingResponse, 'confidence'> = {
+    score,
+    level: closest.level,
+    strengths: closest.strengths,
+    weaknesses: closest.weaknesses,
+    analysis: closest.analysis,
+    suggestions: closest.suggestions
+  };
+  const consistency: ConsistencyCheck = { scores, spread, runs: runs.length };
+  const modelConfidences = graded.flatMap(run => run.confidence?.model !== undefined ? [run.confidence.model] : []);
+  const confidence = combineConfidence({
+    model: modelConfidences.length > 0 ? modelConfidences.reduce((sum, value) => sum + value, 0) / modelConfidences.length : undefined,
+    sampling: closest.maxScore > 0 ? 1 - spread / closest.maxScore : undefined
+  });
+
+  if (spread > closest.maxScore * threshold) {
+    return {
+      name: closest.name,
+      maxScore: closest.maxScore,
+      ...grade,
+      feedback: formatFeedback(grade),
+      status: 'needs_review',
+      error: `Scores varied from ${Math.min(...scores)} to ${Math.max(...scores)} across ${scores.length} runs`,
+      consistency,
+      ...(confidence && { confidence })
+    };
+  }
+  return {
+    name: closest.name,
+    maxScore: closest.maxScore,
+    ...grade,
+    feedback: formatFeedback(grade),
+    status: 'graded',
+    consistency,
+    ...(confidence && { confidence })
+  };
+}
+
+// Function to tag every call made through a provider with the consistency run it belongs to
+function forRun(provider: GradingProvider, run: number): GradingProvider {
+  return {
+    id: provider.id,
+    name: provider.name,
+    model: provider.model,
+    supportsImages: provider.supportsImages,
+    generate: request => provider.generate({ ...request, run })
+  };
+}
+
+// Function to grade one student submission (one or more page images) against every criterion
+export async function gradeFile(
+  answer: GradingDocument,
+  criteria: GradingCriterion[],
+  subject: string,
+  answerKey?: GradingDocument,
+  provider: GradingProvider = getGradingProvider(),
+  mode: GradingMode = 'combined',
+  language: GradingLanguage = DEFAULT_LANGUAGE,
+  signal?: AbortSignal,
+  consistency?: ConsistencyOptions
+): Promise<CriterionResult[]> {
+  const gradeOnce = async (provider: GradingProvider): Promise<CriterionResult[]> => {
+    if (mode === 'combined') {
+      return gradeAllCriteria(answer, criteria, subject, answerKey, provider, language, signal);
+    }
+
+    // Process criteria sequentially for each file
+    const criteriaResults: CriterionResult[] = [];
+    for (const criterion of criteria) {
+      const result = await gradeCriterion(answer, criterion, subject, answerKey, provider, language, signal);
+      criteriaResults.push({
+        name: criterion.name,
+        maxScore: criterion.maxScore,
+        ...result
+      });
+
+      // Add a small delay between criteria to avoid rate limiting
+      await delay(500, signal);
+      signal?.throwIfAborted();
+    }
+    return criteriaResults;
+  };
+
+  if (!consistency) {
+    return gradeOnce(provider);
+  }
+
+  // Runs are sequential for the same reason criteria are
+  const runs: CriterionResult[][] = [];
+  for (let run = 0; run < consistency.samples; run++) {
+    if (run > 0) {
+      await delay(500, signal);
+      signal?.throwIfAborted();
+    }
+    runs.push(await gradeOnce(forRun(provider, run + 1)));
+  }
+  return criteria.map((_criterion, index) => combineRuns(runs.map(results => results[index]), consistency.threshold));
+}
+
+// Function to build the placeholder result for a question the AI could not score
+function questionNeedsReview(
+  question: ExamDefinition['questions'][number],
+  number: number,
+  criteria: GradingCriterion[],
+  errorMessage: string
+): QuestionResult {
+  return {
+    questionId: question.id,
+    question: `Question ${number}: ${question.prompt}`,
+    answer: '',
+    score: 0,
+    maxScore: question.maxScore,
+    strengths: [],
+    weaknesses: [],
+    analysis: '',
+    suggestions: [],
+    feedback: `Unable to perform AI grading: ${errorMessage}. Please enter the score manually.`,
+    status: 'needs_review',
+    criteria: criteria.map(criterion => ({ name: criterion.name, score: 0, maxScore: criterion.maxScore })),
+    error: errorMessage
+  };
+}
+
+// Function to roll question scores up into whole-paper criteria, weighting each question by its points
+export function summarizeQuestionCriteria(questions: QuestionResult[], criteria: GradingCriterion[]): CriterionResult[] {
+  const totalPoints = questions.reduce((sum, question) => sum + question.maxScore, 0);
+  const failed = questions.filter(question => question.status === 'needs_review');
+
+  return criteria.map((criterion, index) => {
+    if (failed.length > 0) {
+      return needsReviewResult(criterion, `Question ${failed.map(q => questions.indexOf(q) + 1).join(', ')} could not be graded`);
+    }
+
+    const weighted = questions.reduce((sum, question) =>
+      sum + (question.criteria[index]?.score ?? 0) * question.maxScore, 0);
+    // The summary is only as sure as its least certain question
+    const modelConfidences = questions.flatMap(question => question.confidence?.model !== undefined ? [question.confidence.model] : []);
+    const confidence = combineConfidence({
+      model: modelConfidences.length > 0 ? Math.min(...modelConfidences) : undefined
+    });
+    const grade: Omit<GradingResponse, 'confidence'> = {
+      score: totalPoints > 0 ? Math.round(weighted / totalPoints) : 0,
+      strengths: [],
+      weaknesses: [],
+      analysis: `Weighted across questions: ${questions
+        .map((question, number) => `Q${number + 1} ${question.criteria[index]?.score ?? 0}/${criterion.maxScore}`)
+        .join(', ')}`,
+      suggestions: []
+    };
+    return {
+      name: criterion.name,
+      maxScore: criterion.maxScore,
+      ...grade,
+      feedback: formatFeedback(grade),
+      status: 'graded' as const,
+      ...(confidence && { confidence })
+    };
+  });
+}
+
+// Function to grade a submission question by question, scoring every rubric criterion within each question
+export async function gradeExam(
+  answer: GradingDocument,
+  exam: ExamDefinition,
+  criteria: GradingCriterion[],
+  subject: string,
+  answerKey?: GradingDocument,
+  provider: GradingProvider = getGradingProvider(),
+  language: GradingLanguage = DEFAULT_LANGUAGE,
+  signal?: AbortSignal
+): Promise<{ questions: QuestionResult[]; criteria: CriterionResult[] }> {
+  const flagAll = (errorMessage: string) => {
+    const questions = exam.questions.map((question, index) => questionNeedsReview(question, index + 1, criteria, errorMessage));
+    return { questions, criteria: summarizeQuestionCriteria(questions, criteria) };
+  };
+
+  let documents: ReturnType<typeof prepareDocuments>;
+  try {
+    documents = prepareDocuments(answer, answerKey, provider);
+  } catch (error: unknown) {
+    return flagAll(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  const questionList = exam.questions
+    .map((question, index) => {
+      const key = question.answerKey ? `\n      Answer key: ${question.answerKey}` : '';
+      return `Question ${index + 1} (${question.maxScore} points): ${question.prompt}${key}`;
+    })
+    .join('\n');
+  // Level descriptors help the model place each answer; exams report scores only. Teacher examples are
+  // whole papers, so they are left out when scoring single questions.
+  const rubric = criteria.map(({ examples: _examples, ...criterion }) => describeRubricCriterion(criterion)).join('\n');
+
+  const prompt = `You are a kind and helpful expert ${subject} grader. Grade this exam question by question.
+    Where a question has an answer key, compare the student's answer with it and mention the differences in the analysis.
+    ${documents.context}
+    Exam questions (${totalExamPoints(exam)} points in total):
+${questionList}
+    Score every question against each rubric criterion:
+${rubric}
+    Respond with a single JSON object and nothing else, using this schema:
+    {
+      "questions": [
+        {
+          "number": number,
+          "answer": string (the student's answer to this question, transcribed),
+          "criteria": [{ "name": string (exactly as written in the rubric), "score": number }],
+          "strengths": string[],
+          "weaknesses": string[],
+          "analysis": string,
+          "suggestions": string[],
+          "confidence": number between 0 and 1 (${CONFIDENCE_INSTRUCTION})
+        }
+      ]
+    }
+    Include one entry per question. If a question is unanswered, give every criterion 0 and say so in the analysis.
+    Keep each list item to one short sentence without markdown.
+    ${languageInstruction(language)}`;
+
+  let entries: z.infer<typeof examResponseSchema>['questions'];
+  try {
+    const response = await callAIAPIWithFile(
+      documents.pages,
+      prompt,
+      documents.answerKeyPages,
+      provider,
+      Math.min(8192, 512 * exam.questions.length + 256 * criteria.length),
+      signal
+    );
+    const parsed = examResponseSchema.safeParse(parseJSONResponse(response));
+    if (!parsed.success) {
+      console.error('AI response did not match the exam schema:', parsed.error.issues);
+      throw new Error('AI response did not match the exam schema');
+    }
+    entries = parsed.data.questions;
+  } catch (error: unknown) {
+    // Cancellations and rate limits that outlasted the retries go back to the caller, which can wait and try again
+    if (isAbortError(error) || isRateLimitError(error)) {
+      throw error;
+    }
+    console.error('AI grading error:', error);
+    return flagAll(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const questions = exam.questions.map((question, index): QuestionResult => {
+    const entry = entries.find(item => item.number === index + 1) ?? entries[index];
+    if (!entry) {
+      return questionNeedsReview(question, index + 1, criteria, 'AI response did not include this question');
+    }
+
+    const scores = criteria.map((criterion, criterionIndex) => {
+      const match = entry.criteria.find(item => normalize(item.name) === normalize(criterion.name)) ?? entry.criteria[criterionIndex];
+      return { name: criterion.name, score: match?.score ?? NaN, maxScore: criterion.maxScore };
+    });
+    if (scores.some(item => isNaN(item.score) || item.score > item.maxScore)) {
+      return questionNeedsReview(question, index + 1, criteria, 'AI response contained a missing or invalid criterion score');
+    }
+
+    // Criteria are weights, so a question's points are its share of the full rubric
+    const rubricTotal = criteria.reduce((sum, criterion) => sum + criterion.maxScore, 0);
+    const earned = scores.reduce((sum, item) => sum + item.score, 0);
+    const { number: _number, answer: studentAnswer, criteria: _criteria, confidence, ...feedback } = entry;
+    const grade: Omit<GradingResponse, 'confidence'> = {
+      score: Math.round((question.maxScore * earned / rubricTotal) * 10) / 10,
+      ...feedback
+    };
+    const confidenceScore = combineConfidence({ model: confidence });
+
+    return {
+      questionId: question.id,
+      question: `Question ${index + 1}: ${question.prompt}`,
+      answer: studentAnswer,
+      maxScore: question.maxScore,
+      ...grade,
+      feedback: formatFeedback(grade),
+      status: 'graded',
+      criteria: scores,
+      ...(confidenceScore && { confidence: confidenceScore })
+    };
+  });
+
+  return { questions, criteria: summarizeQuestionCriteria(questions, criteria) };
+}
@@ -0,0 +1,27 @@
+export type GradingLanguage = 'en' | 'th';
+
+export interface LanguageOption {
+  id: GradingLanguage;
+  name: string;
+  tesseract: string; // traineddata names, joined with + when several are loaded
+  promptName: string; // how the grading prompt names the language
+}
+
+// Thai answers often contain English terms and formulas, so Thai loads both models
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { id: 'en', name: 'English', tesseract: 'eng', promptName: 'English' },
+  { id: 'th', name: 'Thai (ภาษาไทย)', tesseract: 'tha+eng', promptName: 'Thai (ภาษาไทย)' }
+];
+
+export const DEFAULT_LANGUAGE: GradingLanguage = 'en';
+
+// Traineddata is served from public/tessdata rather than fetched from a CDN
+export const TESSDATA_PATH = '/tessdata';
+
+export function getLanguageOption(language: GradingLanguage = DEFAULT_LANGUAGE): LanguageOption {
+  return LANGUAGE_OPTIONS.find(option => option.id === language) ?? LANGUAGE_OPTIONS[0];
+}
+
+export function isGradingLanguage(value: unknown): value is GradingLanguage {
+  return LANGUAGE_OPTIONS.some(option => option.id === value);
+}
@@ -0,0 +1,70 @@
+// PDFs are rendered to page images in the browser, so every provider receives plain images
+// and the server never has to parse PDFs itself.
+
+// 2x the PDF's 72 dpi gives handwriting enough detail without oversized uploads
+const PDF_RENDER_SCALE = 2;
+const PAGE_IMAGE_QUALITY = 0.85;
+
+// Rendering is slow, so pages are cached per File for the grading run and the preview to share
+const pageCache = new WeakMap<File, Promise<File[]>>();
+
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  return pdfjs;
+}
+
+// Function to render every page of a PDF to a JPEG file
+export async function rasterizePdf(file: File, scale: number = PDF_RENDER_SCALE): Promise<File[]> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const baseName = file.name.replace(/\.[^/.]+$/, '');
+
+  try {
+    const pages: File[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas rendering is not supported in this browser');
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PAGE_IMAGE_QUALITY));
+      if (!blob) {
+        throw new Error(`Could not render page ${pageNumber} of ${file.name}`);
+      }
+
+      pages.push(new File([blob], `${baseName}_page${pageNumber}.jpg`, { type: 'image/jpeg' }));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Function to turn one uploaded file into the page images graded as a single submission
+export function getSubmissionPages(file: File): Promise<File[]> {
+  if (!isPdfFile(file)) {
+    return Promise.resolve([file]);
+  }
+
+  let pages = pageCache.get(file);
+  if (!pages) {
+    pages = rasterizePdf(file);
+    // Let a failed render be retried instead of caching the error
+    pages.catch(() => pageCache.delete(file));
+    pageCache.set(file, pages);
+  }
+  return pages;
+}
@@ -1,383 +1,432 @@
 import { createWorker } from 'tesseract.js';
+import {
+  ConsistencyOptions,
+  CriterionResult,
+  GradingCriterion,
+  GradingDocument,
+  GradingMode,
+  QuestionResult,
+  ResultStatus,
+  combineConfidence,
+  isAbortError,
+  isLowConfidence,
+  isRateLimitError,
+  needsReviewResult
+} from './grading';
+import { AuditEventInput, providerCallEvents } from './audit';
+import { ExamDefinition } from './exams';
+import { DEFAULT_LANGUAGE, GradingLanguage, TESSDATA_PATH, getLanguageOption } from './languages';
+import { ProviderCallRecord, ProviderSettings } from './providers';
+import { getSubmissionPages } from './pdf';
+import { PauseGate, runQueue } from './queue';
+import { toGradingCriteria } from './rubrics';
+import type { RubricSnapshot } from './storage';
+import { StudentSubmission } from './submissions';
 
 // Initialize Tesseract worker
 let worker: Tesseract.Worker | null = null;
+let workerLanguages: string | null = null;
 
-export async function initializeOCR() {
+export async function initializeOCR(language: GradingLanguage = DEFAULT_LANGUAGE) {
   if (!worker) {
-    worker = await createWorker();
-    await worker.loadLanguage('eng');
-    await worker.initialize('eng');
+    worker = await createWorker({ langPath: TESSDATA_PATH, gzip: true });
+  }
+  // Switching language reloads the traineddata into the existing worker
+  const { tesseract } = getLanguageOption(language);
+  if (workerLanguages !== tesseract) {
+    await worker.loadLanguage(tesseract);
+    await worker.initialize(tesseract);
+    workerLanguages = tesseract;
   }
 }
 
-export async function processImage(imageFile: File): Promise<string> {
-  if (!worker) {
-    await initializeOCR();
-  }
+// Text recognized from a submission, with Tesseract's mean confidence over its pages from 0 to 1
+export interface OcrExtraction {
+  text: string;
+  confidence?: number; // absent when there were no pages to read
+}
+
+async function recognizePage(imageFile: File, language: GradingLanguage): Promise<{ text: string; confidence: number }> {
+  await initializeOCR(language);
   const result = await worker!.recognize(imageFile);
-  return result.data.text;
+  return { text: result.data.text, confidence: result.data.confidence / 100 };
 }
 
-// Function to parse rubric text into criteria
-function parseRubric(rubricText: string): Array<{name: string, weight: number}> {
-  return rubricText.split('\n')
-    .map(line => {
-      const match = line.match(/(.*?)\s*\((\d+)%\)/);
-      if (match) {
-        return {
-          name: match[1].trim(),
-          weight: parseInt(match[2], 10)
-        };
-      }
-      return null;
-    })
-    .filter((item): item is {name: string, weight: number} => item !== null);
+export async function processImage(imageFile: File, language: GradingLanguage = DEFAULT_LANGUAGE): Promise<string> {
+  return (await recognizePage(imageFile, language)).text;
 }
 
-interface AIResponse {
+// Function to OCR every page of a submission, PDFs included, into one text
+export async function recognizeSubmission(files: File[], language: GradingLanguage = DEFAULT_LANGUAGE): Promise<OcrExtraction> {
+  const pages = (await Promise.all(files.map(getSubmissionPages))).flat();
+  const recognized: Array<{ text: string; confidence: number }> = [];
+  // One shared worker, so pages are recognized one after another
+  for (const page of pages) {
+    const { text, confidence } = await recognizePage(page, language);
+    recognized.push({ text: text.trim(), confidence });
+  }
+  return {
+    text: pages.length > 1
+      ? recognized.map(({ text }, index) => `--- Page ${index + 1} ---\n${text}`).join('\n\n')
+      : recognized[0]?.text ?? '',
+    confidence: recognized.length > 0
+      ? recognized.reduce((sum, page) => sum + page.confidence, 0) / recognized.length
+      : undefined
+  };
+}
+
+export async function extractSubmissionText(files: File[], language: GradingLanguage = DEFAULT_LANGUAGE): Promise<string> {
+  return (await recognizeSubmission(files, language)).text;
+}
+
+export interface StudentResult {
+  id: string;
+  name: string;
+  fileIndex?: number; // position of the student's submission in the session
   score: number;
   feedback: string;
-  suggestions: string[];
+  criteria: CriterionResult[];
+  status: ResultStatus;
+  ocrText?: string; // text the AI was given alongside the images, after any teacher corrections
+  questions?: QuestionResult[]; // only for sessions with an exam definition
 }
 
-// Function to convert File to base64
-async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
+type StudentIdentity = Omit<StudentResult, 'score' | 'feedback' | 'criteria' | 'status'>;
+
+// Function to total a student's criteria and derive the overall status
+export function summarizeStudent(student: StudentIdentity, criteria: CriterionResult[]): StudentResult {
+  const totalScore = Math.round(
+    criteria.reduce((sum, criterion) => sum + criterion.score, 0) /
+    criteria.reduce((sum, criterion) => sum + criterion.maxScore, 0) * 100
+  );
+  const status: ResultStatus = criteria.some(criterion => criterion.status === 'needs_review')
+    ? 'needs_review'
+    : 'graded';
+
+  const overallFeedback = status === 'needs_review' ? "Some criteria could not be graded automatically and need review." :
+                         totalScore >= 80 ? "Excellent work overall!" :
+                         totalScore >= 60 ? "Good work with room for improvement." :
+                         totalScore >= 40 ? "Needs significant improvement." :
+                         "Requires extensive revision.";
+
+  return {
+    ...student,
+    score: totalScore,
+    feedback: overallFeedback,
+    criteria,
+    status
+  };
 }
 
-// Function to delay execution
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Function to retry with exponential backoff
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000
-): Promise<T> {
-  let retries = 0;
-  let currentDelay = initialDelay;
-  
-  while (true) {
-    try {
-      return await fn();
-    } catch (error) {
-      retries++;
-      
-      // Check if it's a rate limit error
-      const isRateLimitError = error instanceof Error && 
-        (error.message.includes('429') || 
-         error.message.includes('RESOURCE_EXHAUSTED') || 
-         error.message.includes('quota'));
-      
-      if (isRateLimitError && retries <= maxRetries) {
-        console.log(`Rate limit hit, retrying in ${currentDelay}ms (attempt ${retries}/${maxRetries})`);
-        await delay(currentDelay);
-        currentDelay *= 2; // Exponential backoff
-        continue;
+// Function to record a teacher-entered score for a criterion flagged for review
+export function applyManualScore(result: StudentResult, criterionIndex: number, score: number): StudentResult {
+  const criteria = result.criteria.map((criterion, index) => index === criterionIndex
+    ? {
+        ...criterion,
+        score,
+        status: 'graded' as const,
+        confidence: undefined,
+        feedback: `Scored manually by the teacher after ${criterion.consistency ? 'AI gradings disagreed' : 'AI grading failed'}${criterion.error ? ` (${criterion.error})` : ''}.`
       }
-      
-      // If it's not a rate limit error or we've exhausted retries, rethrow
-      throw error;
-    }
-  }
+    : criterion
+  );
+  return summarizeStudent(result, criteria);
 }
 
-// Function to call the AI API
-async function callAIAPI(prompt: string): Promise<string> {
-  const API_KEY = process.env.NEXT_PUBLIC_AI_API_KEY;
-  const API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
-
-  if (!API_KEY) {
-    throw new Error('AI API key missing. Please check your .env.local file.');
-  }
-
-  const response = await fetch(`${API_URL}?key=${API_KEY}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{
-          text: prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 128,
-        topP: 0.8,
-        topK: 40
+// Function to record a teacher's change to a criterion's score or feedback.
+// The first override keeps the AI's result; later edits only update the teacher's values.
+export function overrideCriterion(
+  result: StudentResult,
+  criterionIndex: number,
+  changes: { score: number; feedback: string },
+  teacher: string
+): StudentResult {
+  const criteria = result.criteria.map((criterion, index) => index === criterionIndex
+    ? {
+        ...criterion,
+        score: changes.score,
+        feedback: changes.feedback,
+        status: 'graded' as const,
+        override: {
+          originalScore: criterion.override?.originalScore ?? criterion.score,
+          originalFeedback: criterion.override?.originalFeedback ?? criterion.feedback,
+          overriddenBy: teacher,
+          overriddenAt: new Date().toISOString()
+        }
       }
-    })
-  });
+    : criterion
+  );
+  return summarizeStudent(result, criteria);
+}
 
-  if (!response.ok) {
-    throw new Error(`AI API request failed: ${response.statusText}`);
-  }
+// Function to drop a teacher override and restore the AI's score and feedback
+export function revertOverride(result: StudentResult, criterionIndex: number): StudentResult {
+  const criteria = result.criteria.map((criterion, index) => {
+    if (index !== criterionIndex || !criterion.override) {
+      return criterion;
+    }
+    const { override, ...rest } = criterion;
+    // Criteria the AI failed on keep their error, so they go back to the review queue
+    return {
+      ...rest,
+      score: override.originalScore,
+      feedback: override.originalFeedback,
+      status: criterion.error ? 'needs_review' as const : 'graded' as const
+    };
+  });
+  return summarizeStudent(result, criteria);
+}
 
-  const data = await response.json();
-  if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-    throw new Error('Invalid AI API response');
-  }
+// A result is moderated once a teacher has overridden any of its criteria
+export function isModerated(result: StudentResult): boolean {
+  return result.criteria.some(criterion => !!criterion.override);
+}
 
-  return data.candidates[0].content.parts[0].text;
+// A criterion is teacher-scored once it has been overridden, or scored by hand after the AI failed on it
+export function isTeacherScored(criterion: CriterionResult): boolean {
+  return !!criterion.override || (criterion.status === 'graded' && !!criterion.error);
 }
 
-// Function to call the AI API with file
-export async function callAIAPIWithFile(file: File, prompt: string, answerKey?: File): Promise<string> {
-  const API_KEY = process.env.NEXT_PUBLIC_AI_API_KEY;
-  const API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
+// A result is low confidence while any criterion the teacher has not checked is
+export function hasLowConfidence(result: StudentResult): boolean {
+  return result.criteria.some(isLowConfidence);
+}
 
-  if (!API_KEY) {
-    throw new Error('AI API key missing. Please check your .env.local file.');
+// Function to fold the OCR engine's confidence into a criterion's or question's confidence; ones without an AI score are left alone
+function withOcrConfidence<T extends Pick<CriterionResult, 'status' | 'confidence'>>(result: T, ocrConfidence?: number): T {
+  if (ocrConfidence === undefined || (result.status !== 'graded' && !result.confidence)) {
+    return result;
   }
+  const { value: _value, ...factors } = result.confidence ?? {};
+  return { ...result, confidence: combineConfidence({ ...factors, ocr: ocrConfidence }) };
+}
 
-  try {
-  // Convert file to base64
-  const base64File = await fileToBase64(file);
-    let base64AnswerKey = '';
-    
-    if (answerKey) {
-      base64AnswerKey = await fileToBase64(answerKey);
-    }
+// Results saved before review flags existed have no status and count as graded
+export function isGraded(result: { status?: ResultStatus }): boolean {
+  return result.status !== 'needs_review';
+}
 
-    return retryWithBackoff(async () => {
-      // Prepare the request body
-      const requestBody = {
-      contents: [{
-        parts: [
-            { text: prompt },
-          {
-            inline_data: {
-              mime_type: file.type,
-              data: base64File.split(',')[1] // Remove the data URL prefix
-            }
-          }
-        ]
-      }],
-      generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 1024,
-        topP: 0.8,
-        topK: 40
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      };
+export type GradingProgressEvent =
+  | { type: 'file_started'; fileIndex: number; fileName: string }
+  | { type: 'criterion_completed'; fileIndex: number; criterionName: string; status: ResultStatus }
+  | { type: 'file_completed'; fileIndex: number; result: StudentResult }
+  | { type: 'rate_limited'; delayMs: number };
 
-      // Add answer key if provided
-      if (base64AnswerKey) {
-        requestBody.contents[0].parts.push({
-          inline_data: {
-            mime_type: answerKey!.type,
-            data: base64AnswerKey.split(',')[1] // Remove the data URL prefix
-          }
-        });
-      }
+export interface ProcessingOptions {
+  subject?: string;
+  providerSettings?: ProviderSettings;
+  mode?: GradingMode;
+  concurrency?: number;
+  onProgress?: (event: GradingProgressEvent) => void;
+  // Awaited before the next student starts, so results can be persisted as they arrive
+  onStudentGraded?: (result: StudentResult) => Promise<void> | void;
+  // Files already graded in an interrupted session
+  skipFileIndexes?: number[];
+  // Cancelling stops new students from starting and drops the ones in flight; finished students are kept
+  signal?: AbortSignal;
+  pauseGate?: PauseGate;
+  // Runs OCR on submissions without text in ocrTexts; text-only providers need it to grade at all
+  ocr?: boolean;
+  // Teacher-corrected OCR text by submission index, used instead of running OCR again
+  ocrTexts?: Array<string | undefined>;
+  // Tesseract's confidence in each of ocrTexts; left out for text the teacher has corrected
+  ocrConfidences?: Array<number | undefined>;
+  // Language of the class: picks the OCR model and the language feedback is written in
+  language?: GradingLanguage;
+  // Scores each question of the exam instead of only the whole paper
+  exam?: ExamDefinition;
+  // Receives prompts, raw responses, retries and parsed scores for the session's audit log
+  onAudit?: (event: AuditEventInput) => Promise<void> | void;
+  // Grades each criterion several times and flags criteria whose runs disagree; ignored for exams
+  consistency?: ConsistencyOptions;
+}
+
+// Function to grade one submission through the server-side grading route
+async function requestGrading(
+  answer: GradingDocument,
+  criteria: GradingCriterion[],
+  answerKey: GradingDocument,
+  options: ProcessingOptions
+): Promise<{ criteria: CriterionResult[]; questions?: QuestionResult[]; calls?: ProviderCallRecord[] }> {
+  const formData = new FormData();
+  answer.pages.forEach(page => formData.append('file', page));
+  if (answer.text) {
+    formData.append('answerText', answer.text);
+  }
+  formData.append('criteria', JSON.stringify(criteria));
+  formData.append('subject', options.subject || '');
+  formData.append('mode', options.mode || 'combined');
+  formData.append('language', options.language || DEFAULT_LANGUAGE);
+  answerKey.pages.forEach(page => formData.append('answerKey', page));
+  if (answerKey.text) {
+    formData.append('answerKeyText', answerKey.text);
+  }
+  if (options.providerSettings) {
+    formData.append('provider', JSON.stringify(options.providerSettings));
+  }
+  if (options.exam) {
+    formData.append('exam', JSON.stringify(options.exam));
+  }
+  if (options.consistency) {
+    formData.append('consistency', JSON.stringify(options.consistency));
+  }
 
-      const response = await fetch(`${API_URL}?key=${API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
+  const response = await fetch('/api/grade', {
+    method: 'POST',
+    body: formData,
+    signal: options.signal
   });
 
   if (!response.ok) {
-        const errorData = await response.json();
-        console.error('AI API error:', errorData);
-        throw new Error(`AI API request failed: ${response.statusText} - ${JSON.stringify(errorData)}`);
-  }
-
-  const data = await response.json();
-  if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-        console.error('Invalid AI API response:', data);
-        throw new Error('Invalid AI API response format');
+    // Keep the status code in the message so retryWithBackoff can spot rate limits
+    const errorData = await response.json().catch(() => null);
+    throw new Error(`Grading request failed: ${response.status} ${errorData?.error || response.statusText}`);
   }
 
-  return data.candidates[0].content.parts[0].text;
-    });
-  } catch (error) {
-    console.error('Error calling AI API:', error);
-    throw error;
-  }
+  return response.json();
 }
 
-// Modified gradeCriterion function to only handle files
-async function gradeCriterion(answer: File, criterionName: string, maxScore: number, subject: string, answerKey?: File): Promise<{
-  score: number;
-  feedback: string;
-}> {
-  try {
-    let prompt = `You are an kind and helpful expert ${subject} grader. Evaluate this exam based on: ${criterionName} answer in bullet point form
-      do not include * or ** or bold text. If it not look like an exam do not return the score.
-      SCORE: [number between 0 and ${maxScore}]
-      STRENGTHS: [summary point]
-      WEAKNESSES: [summary point]
-      ANALYSIS:[summary point]
-      SUGGESTIONS: [summary point]`;
-
-    if (answerKey) {
-      prompt = `You are an kind and helpful expert ${subject} grader. Compare the student's answer with the provided answer key and evaluate based on: ${criterionName}
-        do not include * or ** or bold text. If it not look like an exam do not return the score.
-    SCORE: [number between 0 and ${maxScore}]
-        STRENGTHS: [summary point]
-        WEAKNESSES: [summary point]
-        ANALYSIS: [Compare student's answer with the answer key, highlighting similarities and differences]
-        SUGGESTIONS: [summary point]`;
-    }
-    
-    const response = await callAIAPIWithFile(answer, prompt, answerKey);
-    
-    // Parse the response to extract score
-    const scoreMatch = response.match(/SCORE:\s*(\d+)/i);
-    if (!scoreMatch) {
-      console.error('Could not find score in AI response:', response);
-      throw new Error('AI response did not contain a valid score');
-    }
-    
-    const score = parseInt(scoreMatch[1], 10);
-    if (isNaN(score) || score < 0 || score > maxScore) {
-      console.error('Invalid score in AI response:', score);
-      throw new Error('AI response contained an invalid score');
-    }
+export async function processStudentAnswers(
+  submissions: StudentSubmission[],
+  rubric: RubricSnapshot,
+  answerKey?: File,
+  options: ProcessingOptions = {}
+): Promise<StudentResult[]> {
+  const criteria = toGradingCriteria(rubric);
+  const { onProgress } = options;
+  // PDFs are split into page images before anything is sent
+  const answerKeyDocument: GradingDocument = {
+    pages: answerKey ? await getSubmissionPages(answerKey) : [],
+    text: answerKey && options.ocr ? await extractSubmissionText([answerKey], options.language) : undefined
+  };
 
-    // Split the response into sections and clean up
-    const sections = response.split(/(?=SCORE:|STRENGTHS:|WEAKNESSES:|ANALYSIS:|SUGGESTIONS:)/i)
-      .filter(Boolean)
-      .map(section => section.trim());
-
-    // Format bullet points for each section
-    const formatBulletPoints = (text: string) => {
-      return text
-        .split(/[•*]\s*/)  // Split on either • or * bullets
-        .filter(Boolean)
-        .map(point => point.trim())
-        .filter(point => point.length > 0)  // Remove empty points
-        .map(point => `  • ${point}`)  // Add consistent bullet point format
-        .join('\n');
-    };
+  // Grade one submission; per-criterion mode sends one request per criterion so progress shows as each finishes
+  // What a submission has got through so far. When a rate limit sends it back to the queue,
+  // the retry reuses the OCR text and resumes at the batch that failed instead of regrading the rest.
+  const started = new Map<number, { ocr?: OcrExtraction; gradedBatches: CriterionResult[][] }>();
 
-    // Extract and format each section
-    const formattedSections = sections.map(section => {
-      if (section.startsWith('SCORE:')) {
-        return `SCORE:${section.replace('SCORE:', '').trim()}`;
-      }
-      
-      const [header, ...content] = section.split('\n');
-      const sectionContent = content.join(' ').trim();
-      
-      if (header.includes('ANALYSIS:')) {
-        return `ANALYSIS:\n  ${sectionContent}`;
+  const gradeSubmission = async (submission: StudentSubmission, fileIndex: number): Promise<StudentResult> => {
+    let state = started.get(fileIndex);
+    if (!state) {
+      onProgress?.({ type: 'file_started', fileIndex, fileName: submission.name });
+      const reviewedText = options.ocrTexts?.[fileIndex];
+      state = {
+        ocr: reviewedText !== undefined
+          ? { text: reviewedText, confidence: options.ocrConfidences?.[fileIndex] }
+          : options.ocr ? await recognizeSubmission(submission.files, options.language) : undefined,
+        gradedBatches: []
+      };
+      started.set(fileIndex, state);
+    }
+    const { ocr, gradedBatches } = state;
+
+    // Every file of the submission, with PDFs expanded to their pages, is graded in one request
+    const pages = (await Promise.all(submission.files.map(getSubmissionPages))).flat();
+    const ocrText = ocr?.text;
+    let questions: QuestionResult[] | undefined;
+    // Exams are scored in one request so every question sees the whole rubric
+    const batches = options.mode === 'per_criterion' && !options.exam ? criteria.map(criterion => [criterion]) : [criteria];
+    for (const batch of batches.slice(gradedBatches.length)) {
+      let batchResults: CriterionResult[];
+      try {
+        const response = await requestGrading({ pages, text: ocrText }, batch, answerKeyDocument, options);
+        batchResults = response.criteria.map(criterion => withOcrConfidence(criterion, ocr?.confidence));
+        questions = response.questions?.map(question => withOcrConfidence(question, ocr?.confidence));
+        for (const event of providerCallEvents(submission.name, response.calls)) {
+          await options.onAudit?.(event);
+        }
+        await options.onAudit?.({
+          type: 'score_parsed',
+          student: submission.name,
+          data: {
+            criteria: batchResults.map(({ name, score, maxScore, status, error, consistency, confidence }) => ({
+              name, score, maxScore, status, error, ...(consistency && { consistency }), ...(confidence && { confidence })
+            })),
+            ...(questions && {
+              questions: questions.map(({ question, score, maxScore, status, confidence }) => ({
+                question, score, maxScore, status, ...(confidence && { confidence })
+              }))
+            })
+          }
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (isAbortError(error)) {
+          throw error;
+        }
+        // Let the queue retry rate limits; anything else is flagged rather than failing the batch
+        if (isRateLimitError(error)) {
+          await options.onAudit?.({ type: 'retry', student: submission.name, data: { error: errorMessage } });
+          throw error;
+        }
+        console.error('Grading request error:', error);
+        await options.onAudit?.({
+          type: 'grading_failed',
+          student: submission.name,
+          data: { criteria: batch.map(criterion => criterion.name), error: errorMessage }
+        });
+        batchResults = batch.map(criterion => needsReviewResult(criterion, errorMessage));
       }
-      
-      if (header.includes('STRENGTHS:') || header.includes('WEAKNESSES:') || header.includes('SUGGESTIONS:')) {
-        return `${header}\n${formatBulletPoints(sectionContent)}`;
+
+      gradedBatches.push(batchResults);
+      for (const result of batchResults) {
+        onProgress?.({ type: 'criterion_completed', fileIndex, criterionName: result.name, status: result.status });
       }
-      
-      return section;
-    });
+    }
 
-    // Join sections with proper spacing
-    const formattedFeedback = formattedSections
-      .join('\n\n')
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+    return completeStudent(submission, fileIndex, gradedBatches.flat(), ocrText, questions);
+  };
 
-    return {
-      score: score,
-      feedback: formattedFeedback
-    };
-  } catch (error: unknown) {
-    console.error('AI grading error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return {
-      score: Math.floor(maxScore * 0.7),
-      feedback: `Unable to perform AI grading: ${errorMessage}. Please review manually.`
-    };
-  }
-}
+  const completeStudent = async (
+    submission: StudentSubmission,
+    fileIndex: number,
+    criteriaResults: CriterionResult[],
+    ocrText?: string,
+    questions?: QuestionResult[]
+  ): Promise<StudentResult> => {
+    const result = summarizeStudent({
+      id: `student-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: submission.name,
+      fileIndex,
+      ocrText,
+      questions
+    }, criteriaResults);
+    await options.onStudentGraded?.(result);
+    onProgress?.({ type: 'file_completed', fileIndex, result });
+    return result;
+  };
 
-export async function processStudentAnswers(
-  studentFiles: File[],
-  rubricText: string,
-  answerKey?: File
-): Promise<Array<{
-  id: string;
-  name: string;
-  score: number;
-  feedback: string;
-  criteria: Array<{
-    name: string;
-    score: number;
-    maxScore: number;
-    feedback: string;
-  }>;
-}>> {
-  const criteria = parseRubric(rubricText);
-  const results = [];
-  
-  // Process files sequentially instead of in parallel
-  for (const file of studentFiles) {
-    // Process criteria sequentially for each file
-    const criteriaResults = [];
-    for (const criterion of criteria) {
-      const maxScore = criterion.weight;
-      const { score, feedback } = await gradeCriterion(file, criterion.name, maxScore, "", answerKey);
-      criteriaResults.push({
-        name: criterion.name,
-        score,
-        maxScore,
-        feedback
+  const skipped = new Set(options.skipFileIndexes ?? []);
+  const pending = submissions
+    .map((submission, fileIndex) => ({ submission, fileIndex }))
+    .filter(({ fileIndex }) => !skipped.has(fileIndex));
+
+  return runQueue(
+    pending,
+    ({ submission, fileIndex }) => gradeSubmission(submission, fileIndex),
+    {
+      concurrency: options.concurrency,
+      signal: options.signal,
+      pauseGate: options.pauseGate,
+      onRateLimit: delayMs => onProgress?.({ type: 'rate_limited', delayMs })
+    },
+    // Still rate limited after every retry: keep the batches already graded and flag the rest instead of failing the batch
+    async (error, { submission, fileIndex }) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const state = started.get(fileIndex);
+      const graded = state?.gradedBatches.flat() ?? [];
+      const ungraded = criteria.slice(graded.length);
+      await options.onAudit?.({
+        type: 'grading_failed',
+        student: submission.name,
+        data: { criteria: ungraded.map(criterion => criterion.name), error: errorMessage }
       });
-      
-      // Add a small delay between criteria to avoid rate limiting
-      await delay(500);
+      return completeStudent(
+        submission,
+        fileIndex,
+        [...graded, ...ungraded.map(criterion => needsReviewResult(criterion, errorMessage))],
+        state?.ocr?.text
+      );
     }
-    
-    const totalScore = Math.round(
-      criteriaResults.reduce((sum, criterion) => sum + criterion.score, 0) /
-      criteriaResults.reduce((sum, criterion) => sum + criterion.maxScore, 0) * 100
-    );
-    
-    const overallFeedback = totalScore >= 80 ? "Excellent work overall!" :
-                           totalScore >= 60 ? "Good work with room for improvement." :
-                           totalScore >= 40 ? "Needs significant improvement." :
-                           "Requires extensive revision.";
-    
-    results.push({
-      id: `student-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      name: file.name.replace(/\.[^/.]+$/, ""),
-      score: totalScore,
-      feedback: overallFeedback,
-      criteria: criteriaResults
-    });
-    
-    // Add a delay between files to avoid rate limiting
-    await delay(1000);
-  }
-  
-  return results;
-} 
\ No newline at end of file
+  );
+}
@@ -0,0 +1,402 @@
+import { z } from 'zod';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderAttachment {
+  mimeType: string;
+  data: string; // base64 without the data URL prefix
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  attachments?: ProviderAttachment[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  attempt?: number; // 1 for the first try, counting up as retryWithBackoff repeats the call
+  run?: number; // which of several consistency runs the call belongs to, from 1
+}
+
+// Providers run on the server only (see app/api/grade), so API keys stay out of the browser bundle
+export interface GradingProvider {
+  id: ProviderId;
+  name: string;
+  model: string;
+  supportsImages: boolean; // text-only providers are sent the OCR text instead of page images
+  generate(request: ProviderRequest): Promise<string>;
+}
+
+// One provider call as sent and as answered, returned to the browser for the session audit log
+export interface ProviderCallRecord {
+  provider: ProviderId;
+  model: string;
+  prompt: string;
+  attachmentCount: number;
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseFormat?: 'text' | 'json';
+  attempt: number; // retries of the same call show up as attempt 2, 3, ...
+  run?: number; // only when each criterion was graded several times
+  response?: string; // raw model output, before any parsing
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+// The OpenAI-compatible endpoint and model are server configuration (OPENAI_BASE_URL, OPENAI_MODEL):
+// the server's key is sent to that endpoint, so the browser must never be able to choose it
+export interface ProviderSettings {
+  provider: ProviderId;
+  openaiSupportsImages?: boolean;
+}
+
+// Provider settings as the API routes accept them from the browser; anything else, such as an endpoint URL, is rejected
+export const providerSettingsSchema = z.object({
+  provider: z.enum(['gemini', 'openai', 'mock']),
+  openaiSupportsImages: z.boolean().optional()
+}).strict();
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  openaiSupportsImages: true
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export const PROVIDER_OPTIONS: Array<{ id: ProviderId; name: string; description: string }> = [
+  { id: 'gemini', name: 'Google Gemini', description: 'Gemini 2.0 Flash with image input' },
+  { id: 'openai', name: 'OpenAI-compatible', description: 'The chat completions endpoint and model configured on the server' },
+  { id: 'mock', name: 'Local mock', description: 'Deterministic offline scores for testing' }
+];
+
+// Google Gemini provider
+export class GeminiProvider implements GradingProvider {
+  id: ProviderId = 'gemini';
+  name = 'Google Gemini';
+  supportsImages = true;
+
+  constructor(public model: string = 'gemini-2.0-flash') {}
+
+  async generate({ prompt, attachments = [], temperature = 0.3, maxOutputTokens = 1024, responseFormat = 'text', signal }: ProviderRequest): Promise<string> {
+    const API_KEY = process.env.AI_API_KEY;
+    const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`;
+
+    if (!API_KEY) {
+      throw new Error('AI API key missing. Please set AI_API_KEY in your .env.local file.');
+    }
+
+    const requestBody = {
+      contents: [{
+        parts: [
+          { text: prompt },
+          ...attachments.map(attachment => ({
+            inline_data: {
+              mime_type: attachment.mimeType,
+              data: attachment.data
+            }
+          }))
+        ]
+      }],
+      generationConfig: {
+        temperature,
+        maxOutputTokens,
+        topP: 0.8,
+        topK: 40,
+        ...(responseFormat === 'json' && { responseMimeType: 'application/json' })
+      },
+      safetySettings: [
+        {
+          category: "HARM_CATEGORY_HARASSMENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_HATE_SPEECH",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        }
+      ]
+    };
+
+    const response = await fetch(`${API_URL}?key=${API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error('AI API error:', errorData);
+      throw new Error(`AI API request failed: ${response.statusText} - ${JSON.stringify(errorData)}`);
+    }
+
+    const data = await response.json();
+    if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
+      console.error('Invalid AI API response:', data);
+      throw new Error('Invalid AI API response format');
+    }
+
+    return data.candidates[0].content.parts[0].text;
+  }
+}
+
+// OpenAI-compatible chat completions provider
+export class OpenAICompatibleProvider implements GradingProvider {
+  id: ProviderId = 'openai';
+  name = 'OpenAI-compatible';
+
+  constructor(
+    private baseUrl: string = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+    public model: string = process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+    public supportsImages: boolean = true
+  ) {}
+
+  async generate({ prompt, attachments = [], temperature = 0.3, maxOutputTokens = 1024, responseFormat = 'text', signal }: ProviderRequest): Promise<string> {
+    const API_KEY = process.env.OPENAI_API_KEY;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    // Self-hosted endpoints often run without a key
+    if (API_KEY) {
+      headers['Authorization'] = `Bearer ${API_KEY}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        temperature,
+        max_tokens: maxOutputTokens,
+        ...(responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            ...attachments.map(attachment => ({
+              type: 'image_url',
+              image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` }
+            }))
+          ]
+        }]
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('AI API error:', errorText);
+      throw new Error(`AI API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) {
+      console.error('Invalid AI API response:', data);
+      throw new Error('Invalid AI API response format');
+    }
+
+    return content;
+  }
+}
+
+// Simple string hash so the mock provider gives the same answer for the same input
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Keep mock scores in the upper half so totals look plausible
+function mockScore(maxScore: number, seed: number): number {
+  return Math.round(maxScore * (0.5 + (seed % 51) / 100));
+}
+
+// Spread confidence from 0.4 to 0.99 so some mock results fall below the review threshold
+function mockConfidence(seed: number): number {
+  return 0.4 + (seed % 60) / 100;
+}
+
+// Levels are listed under their criterion as "* name (min-max points): descriptor"
+const MOCK_LEVEL = /^\s*\* (.+) \(([\d.]+)-([\d.]+) points\):/;
+
+// Function to pick the listed level whose points contain the mock score
+function mockLevel(lines: string[], score: number): string | undefined {
+  for (const line of lines) {
+    const match = line.match(MOCK_LEVEL);
+    if (match && score >= parseFloat(match[2]) && score <= parseFloat(match[3])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+// Function to collect the level lines that follow each criterion line of a combined prompt
+function mockLevelLines(prompt: string, criterionLine: string): string[] {
+  const lines = prompt.split('\n');
+  const start = lines.findIndex(line => line.trim() === criterionLine.trim());
+  const levels: string[] = [];
+  for (let i = start + 1; start >= 0 && i < lines.length && MOCK_LEVEL.test(lines[i]); i++) {
+    levels.push(lines[i]);
+  }
+  return levels;
+}
+
+// Deterministic provider that never calls an external service, for offline testing
+export class MockProvider implements GradingProvider {
+  id: ProviderId = 'mock';
+  name = 'Local mock';
+  model = 'mock';
+  supportsImages = true;
+
+  async generate({ prompt, attachments = [], signal }: ProviderRequest): Promise<string> {
+    signal?.throwIfAborted();
+    const seed = hashString(prompt + attachments.map(attachment => attachment.data.slice(0, 2048)).join(''));
+    const feedback = {
+      strengths: ['Answer addresses the question', 'Work is legible'],
+      weaknesses: ['Some steps are not explained'],
+      analysis: 'Mock evaluation generated locally without calling an AI service.',
+      suggestions: ['Show each step of the reasoning', 'Check the final answer']
+    };
+
+    // Rubric generation prompts ask for a whole rubric rather than scores
+    if (prompt.includes('Propose a grading rubric')) {
+      return JSON.stringify(mockRubric(seed));
+    }
+
+    // Combined prompts list every criterion as "- name (score between 0 and N)"
+    const criteria = Array.from(prompt.matchAll(/^\s*- (.+) \(score between 0 and (\d+)\)\s*$/gm));
+
+    // Exam prompts also list every question as "Question N (P points): ..."
+    const questions = Array.from(prompt.matchAll(/^\s*Question (\d+) \([\d.]+ points\):/gm));
+    if (questions.length > 0) {
+      return JSON.stringify({
+        questions: questions.map((question, questionIndex) => ({
+          number: parseInt(question[1], 10),
+          answer: 'Mock transcription of the student answer.',
+          criteria: criteria.map((match, index) => ({
+            name: match[1],
+            score: mockScore(parseInt(match[2], 10), seed + questionIndex * criteria.length + index)
+          })),
+          ...feedback,
+          confidence: mockConfidence(seed + questionIndex)
+        }))
+      });
+    }
+
+    if (criteria.length > 0) {
+      return JSON.stringify({
+        criteria: criteria.map((match, index) => {
+          const score = mockScore(parseInt(match[2], 10), seed + index);
+          return {
+            name: match[1],
+            score,
+            level: mockLevel(mockLevelLines(prompt, match[0]), score),
+            ...feedback,
+            confidence: mockConfidence(seed + index)
+          };
+        })
+      });
+    }
+
+    const maxMatch = prompt.match(/between 0 and (\d+)/i);
+    const maxScore = maxMatch ? parseInt(maxMatch[1], 10) : 10;
+    const score = mockScore(maxScore, seed);
+    return JSON.stringify({
+      score,
+      level: mockLevel(prompt.split('\n'), score),
+      ...feedback,
+      confidence: mockConfidence(seed)
+    });
+  }
+}
+
+// Function to build a fixed four-criterion rubric; the weights deliberately add up to a little over 100
+// so the caller's normalization is exercised too
+function mockRubric(seed: number) {
+  const levels = (weight: number) => [
+    { name: 'Excellent', description: 'Meets every expectation', minScore: Math.round(weight * 0.9), maxScore: weight },
+    { name: 'Proficient', description: 'Meets most expectations', minScore: Math.round(weight * 0.7), maxScore: Math.round(weight * 0.9) - 1 },
+    { name: 'Developing', description: 'Meets some expectations', minScore: Math.round(weight * 0.5), maxScore: Math.round(weight * 0.7) - 1 },
+    { name: 'Beginning', description: 'Meets few expectations', minScore: 0, maxScore: Math.round(weight * 0.5) - 1 }
+  ];
+  const criteria: Array<[string, number]> = [
+    ['Understanding of concepts', 35 + (seed % 5)],
+    ['Reasoning and working', 30],
+    ['Accuracy of results', 25],
+    ['Presentation', 10]
+  ];
+  return {
+    name: 'Mock Generated Rubric',
+    criteria: criteria.map(([name, weight]) => ({
+      name,
+      weight,
+      rationale: 'Mock rationale generated locally without calling an AI service.',
+      levels: levels(weight)
+    }))
+  };
+}
+
+// Function to wrap a provider so every call it makes is appended to records
+export function recordProviderCalls(provider: GradingProvider, records: ProviderCallRecord[]): GradingProvider {
+  return {
+    id: provider.id,
+    name: provider.name,
+    model: provider.model,
+    supportsImages: provider.supportsImages,
+    async generate(request: ProviderRequest): Promise<string> {
+      const started = Date.now();
+      const record: ProviderCallRecord = {
+        provider: provider.id,
+        model: provider.model,
+        prompt: request.prompt,
+        attachmentCount: request.attachments?.length ?? 0,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        responseFormat: request.responseFormat,
+        attempt: request.attempt ?? 1,
+        ...(request.run !== undefined && { run: request.run }),
+        startedAt: new Date(started).toISOString(),
+        durationMs: 0
+      };
+      records.push(record);
+
+      try {
+        record.response = await provider.generate(request);
+        return record.response;
+      } catch (error) {
+        record.error = error instanceof Error ? error.message : 'Unknown error';
+        throw error;
+      } finally {
+        record.durationMs = Date.now() - started;
+      }
+    }
+  };
+}
+
+// Function to create the provider selected in settings
+export function getGradingProvider(settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS): GradingProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(undefined, undefined, settings.openaiSupportsImages ?? true);
+    case 'mock':
+      return new MockProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider();
+  }
+}
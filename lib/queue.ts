@@ -0,0 +1,111 @@
+import { delay, isAbortError, retryWithBackoff } from './grading';
+
+// Lets the UI hold a running queue between jobs; jobs already in flight finish normally
+export interface PauseGate {
+  readonly isPaused: boolean;
+  pause(): void;
+  resume(): void;
+  wait(): Promise<void>;
+}
+
+export function createPauseGate(): PauseGate {
+  let paused: Promise<void> | null = null;
+  let release: (() => void) | null = null;
+
+  return {
+    get isPaused() {
+      return paused !== null;
+    },
+    pause() {
+      if (!paused) {
+        paused = new Promise(resolve => { release = resolve; });
+      }
+    },
+    resume() {
+      release?.();
+      paused = null;
+      release = null;
+    },
+    wait() {
+      return paused ?? Promise.resolve();
+    }
+  };
+}
+
+export interface QueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  initialDelay?: number;
+  onRateLimit?: (delayMs: number) => void;
+  signal?: AbortSignal;
+  pauseGate?: PauseGate;
+}
+
+// Called with the final error once a job has used up its retries; its return value becomes the job's result
+export type QueueErrorHandler<T, R> = (error: unknown, item: T, index: number) => R | Promise<R>;
+
+// Function to run jobs with at most `concurrency` in flight at once.
+// When any job hits a rate limit, every worker holds off starting new jobs until the backoff has passed.
+// Once the signal aborts no new jobs start, and the queue resolves with the results of the jobs that finished.
+export async function runQueue<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  { concurrency = 2, maxRetries = 3, initialDelay = 1000, onRateLimit, signal, pauseGate }: QueueOptions = {},
+  onError?: QueueErrorHandler<T, R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const finished = new Array<boolean>(items.length).fill(false);
+  let nextIndex = 0;
+  let cooldownUntil = 0;
+
+  const aborted = new Promise<void>(resolve => signal?.addEventListener('abort', () => resolve(), { once: true }));
+
+  const handleRateLimit = (delayMs: number) => {
+    cooldownUntil = Math.max(cooldownUntil, Date.now() + delayMs);
+    onRateLimit?.(delayMs);
+  };
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      if (pauseGate?.isPaused) {
+        await Promise.race([pauseGate.wait(), aborted]);
+      }
+
+      const wait = cooldownUntil - Date.now();
+      if (wait > 0) {
+        await delay(wait, signal);
+      }
+      if (signal?.aborted) {
+        return;
+      }
+      // Other workers may have taken the remaining jobs while this one was paused or cooling down
+      if (nextIndex >= items.length) {
+        return;
+      }
+
+      const index = nextIndex++;
+      try {
+        results[index] = await retryWithBackoff(
+          () => worker(items[index], index),
+          maxRetries,
+          initialDelay,
+          handleRateLimit,
+          signal
+        );
+      } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+          return;
+        }
+        if (!onError) {
+          throw error;
+        }
+        results[index] = await onError(error, items[index], index);
+      }
+      finished[index] = true;
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results.filter((_, index) => finished[index]);
+}
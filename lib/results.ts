@@ -0,0 +1,105 @@
+import type { GradingSession, GradingSessionStatus, RubricCriterion } from './storage';
+import { isModerated, isTeacherScored, type StudentResult } from './processing';
+import { singleFileGroups } from './submissions';
+
+// One scored item in a student's breakdown: an exam question, or a rubric criterion for whole-paper sessions
+export interface ResultsFeedbackItem {
+  question: string;
+  answer?: string;
+  score: number;
+  maxScore: number;
+  feedback: string;
+}
+
+export interface ResultsStudent {
+  id: string;
+  name: string;
+  filename: string;
+  score: number;
+  status: StudentResult['status'];
+  moderated: boolean; // a teacher overrode at least one criterion
+  feedback: ResultsFeedbackItem[];
+  images: string[]; // data URLs of the student's image pages; PDFs are not included
+}
+
+// Shape read by the results page's GradingSummary and StudentDetails
+export interface ResultsView {
+  id: string;
+  name: string;
+  subject: string;
+  createdAt: string;
+  status: GradingSessionStatus;
+  rubric: {
+    name: string;
+    content: string;
+    version?: number;
+    criteria: RubricCriterion[]; // empty for sessions saved before rubric snapshots
+    capturedAt?: string;
+  };
+  students: ResultsStudent[];
+}
+
+// Function to list what a student is scored on, preferring questions when the session had an exam.
+// Question scores are the AI's alone, so once a teacher has scored a criterion the criteria are listed instead.
+function toFeedbackItems(result: StudentResult): ResultsFeedbackItem[] {
+  if (result.questions && result.questions.length > 0 && !result.criteria.some(isTeacherScored)) {
+    return result.questions.map(question => ({
+      question: question.question,
+      answer: question.answer,
+      score: question.score,
+      maxScore: question.maxScore,
+      feedback: question.feedback
+    }));
+  }
+  return result.criteria.map(criterion => ({
+    question: criterion.name,
+    score: criterion.score,
+    maxScore: criterion.maxScore,
+    feedback: criterion.feedback
+  }));
+}
+
+// Function to map a stored grading session into the results page view
+export function toResultsView(session: GradingSession): ResultsView {
+  const groups = session.studentGroups ?? singleFileGroups(session.studentFiles.length);
+  const results = [...(session.results as StudentResult[])].sort((a, b) => (a.fileIndex ?? 0) - (b.fileIndex ?? 0));
+
+  return {
+    id: session.id,
+    name: session.sessionName,
+    subject: session.subject,
+    createdAt: session.createdAt,
+    status: session.status ?? 'completed',
+    // Older sessions only kept the rubric text, if anything
+    rubric: session.rubric
+      ? {
+          name: session.rubric.name,
+          content: session.rubric.content,
+          version: session.rubric.version,
+          criteria: session.rubric.criteria,
+          capturedAt: session.rubric.capturedAt
+        }
+      : {
+          name: session.rubricText ? 'Session rubric' : 'Template rubric',
+          content: session.rubricText || 'No rubric text was saved with this session.',
+          criteria: []
+        },
+    students: results.map((result, index) => {
+      const fileIndexes = groups[result.fileIndex ?? index] ?? [];
+      return {
+        id: result.id,
+        name: result.name,
+        filename: fileIndexes
+          .map(fileIndex => session.studentFileNames?.[fileIndex] || `student_answer_${fileIndex + 1}`)
+          .join(', '),
+        score: result.score,
+        status: result.status,
+        moderated: isModerated(result),
+        feedback: toFeedbackItems(result),
+        images: fileIndexes
+          .map(fileIndex => session.studentFiles[fileIndex])
+          .filter((file): file is string => !!file && file.startsWith('data:image/'))
+      };
+    })
+  };
+}
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { callAIAPIWithFile, parseJSONResponse, type PerformanceLevel } from './grading';
+import { DEFAULT_LANGUAGE, getLanguageOption, type GradingLanguage } from './languages';
+import { getGradingProvider, type GradingProvider } from './providers';
+
+// What the teacher describes the assignment with; at least one of the fields must be filled in
+export interface RubricGenerationInput {
+  subject: string;
+  assignment?: string;
+  answerKeyPages?: File[]; // page images of an uploaded answer key
+  answerKeyText?: string;
+}
+
+export interface GeneratedCriterion {
+  description: string;
+  weight: number;
+  rationale: string; // why the criterion matters for this assignment, shown to the teacher only
+  levels: PerformanceLevel[];
+}
+
+// A proposed rubric for the teacher to edit; nothing is saved until they do
+export interface GeneratedRubric {
+  name: string;
+  criteria: GeneratedCriterion[];
+}
+
+const generatedRubricSchema = z.object({
+  name: z.string().trim().min(1),
+  criteria: z.array(z.object({
+    name: z.string().trim().min(1),
+    weight: z.number().positive(),
+    rationale: z.string().default(''),
+    levels: z.array(z.object({
+      name: z.string().trim().min(1),
+      description: z.string().default(''),
+      minScore: z.number().min(0),
+      maxScore: z.number().min(0)
+    })).default([])
+  })).min(1).max(10)
+});
+
+// Function to scale weights so they add up to exactly 100, giving rounding leftovers to the largest remainders.
+// Every criterion keeps at least 1 point, so a tiny proposed weight can't round away to nothing.
+export function normalizeWeights(weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const shared = 100 - weights.length;
+  const exact = weights.map(weight => (weight / total) * shared);
+  const rounded = exact.map(Math.floor);
+  let leftover = shared - rounded.reduce((sum, weight) => sum + weight, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    rounded[index]++;
+    leftover--;
+  }
+  return rounded.map(weight => weight + 1);
+}
+
+// Function to rescale a criterion's levels onto its final weight so the bands run from 0 to the weight without gaps
+function fitLevels(levels: PerformanceLevel[], proposedWeight: number, weight: number): PerformanceLevel[] {
+  const scale = proposedWeight > 0 ? weight / proposedWeight : 1;
+  const sorted = [...levels].sort((a, b) => b.minScore - a.minScore);
+  const fitted: PerformanceLevel[] = [];
+
+  sorted.forEach((level, index) => {
+    const maxScore = index === 0 ? weight : Math.max(0, fitted[index - 1].minScore - 1);
+    const minScore = index === sorted.length - 1 ? 0 : Math.min(maxScore, Math.round(level.minScore * scale));
+    fitted.push({ name: level.name, description: level.description, minScore, maxScore });
+  });
+  return fitted;
+}
+
+// Function to ask the model for a rubric for an assignment, then fix up weights and level bands it got wrong
+export async function generateRubric(
+  input: RubricGenerationInput,
+  provider: GradingProvider = getGradingProvider(),
+  language: GradingLanguage = DEFAULT_LANGUAGE,
+  signal?: AbortSignal
+): Promise<GeneratedRubric> {
+  const pages = provider.supportsImages ? input.answerKeyPages ?? [] : [];
+  if (!input.assignment?.trim() && !input.answerKeyText?.trim() && pages.length === 0) {
+    throw new Error(
+      input.answerKeyPages?.length
+        ? `${provider.name} cannot read images. Describe the assignment or paste the answer key as text`
+        : 'Describe the assignment or provide an answer key'
+    );
+  }
+
+  const context = [
+    input.assignment?.trim() && `Assignment description:\n"""\n${input.assignment.trim()}\n"""`,
+    input.answerKeyText?.trim() && `Answer key:\n"""\n${input.answerKeyText.trim()}\n"""`,
+    pages.length > 0 && `The attached ${pages.length === 1 ? 'image is' : `${pages.length} images are`} the answer key, in page order.`
+  ].filter(Boolean).join('\n');
+
+  const prompt = `You are an experienced ${input.subject} teacher. Propose a grading rubric for the assignment below.
+    ${context}
+    Use 3 to 6 criteria that a grader can judge independently from the student's work.
+    Each criterion's weight is its share of the total mark, and the weights must add up to 100.
+    Give every criterion four performance levels, best first, whose point ranges together cover 0 to the criterion's weight.
+    Respond with a single JSON object and nothing else, using this schema:
+    {
+      "name": string (a short rubric title),
+      "criteria": [
+        {
+          "name": string (what is being assessed, in a few words),
+          "weight": number,
+          "rationale": string (one sentence on why this criterion matters for this assignment),
+          "levels": [{ "name": string, "description": string, "minScore": number, "maxScore": number }]
+        }
+      ]
+    }
+    Write the names, rationales and level descriptions in ${getLanguageOption(language).promptName}. Keep the JSON keys as given.`;
+
+  const response = await callAIAPIWithFile(pages, prompt, [], provider, 2048, signal);
+  const parsed = generatedRubricSchema.safeParse(parseJSONResponse(response));
+  if (!parsed.success) {
+    console.error('AI response did not match the rubric schema:', parsed.error.issues);
+    throw new Error('AI response did not match the rubric schema');
+  }
+
+  const weights = normalizeWeights(parsed.data.criteria.map(criterion => criterion.weight));
+  return {
+    name: parsed.data.name,
+    criteria: parsed.data.criteria.map((criterion, index) => ({
+      description: criterion.name,
+      weight: weights[index],
+      rationale: criterion.rationale,
+      levels: fitLevels(criterion.levels, criterion.weight, weights[index])
+    }))
+  };
+}
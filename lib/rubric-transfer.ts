@@ -0,0 +1,286 @@
+import { z } from 'zod';
+import { validateLevels, validateWeight } from './rubrics';
+import type { Rubric, RubricCriterion } from './storage';
+
+// Exported files carry a format name and version so later changes to the shape can still read old files
+export const RUBRIC_EXPORT_FORMAT = 'fairgrade-rubrics';
+export const RUBRIC_EXPORT_VERSION = 1;
+
+// One row per criterion; rows with the same rubric name and subject form one rubric
+const CSV_COLUMNS = ['rubric', 'subject', 'criterion', 'weight', 'description'] as const;
+
+const levelSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1),
+  description: z.string().default(''),
+  minScore: z.number().min(0),
+  maxScore: z.number().min(0)
+});
+
+const criterionSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().trim().min(1),
+  weight: z.number().min(0).max(100),
+  levels: z.array(levelSchema).optional()
+});
+
+const rubricSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1),
+  subject: z.string().trim().min(1),
+  criteria: z.array(criterionSchema).min(1),
+  createdAt: z.string().optional()
+});
+
+const rubricExportSchema = z.object({
+  format: z.literal(RUBRIC_EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  rubrics: z.array(rubricSchema).min(1)
+});
+
+type RubricInput = z.infer<typeof rubricSchema>;
+
+// A rubric read from a file, with anything that would stop it from being saved
+export interface ImportedRubric {
+  rubric: Rubric;
+  problems: string[];
+}
+
+// What to do with an imported rubric whose id is already in use
+export type RubricImportResolution = 'replace' | 'copy' | 'skip';
+
+// Function to write rubrics as the versioned JSON format. Version history stays in the browser it was made in.
+export function exportRubricsJson(rubrics: Rubric[]): string {
+  return JSON.stringify({
+    format: RUBRIC_EXPORT_FORMAT,
+    version: RUBRIC_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    rubrics: rubrics.map(rubric => ({
+      id: rubric.id,
+      name: rubric.name,
+      subject: rubric.subject,
+      version: rubric.version,
+      createdAt: rubric.createdAt,
+      criteria: rubric.criteria
+    }))
+  }, null, 2);
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Function to write rubrics as a flat CSV. Performance levels don't fit in one row, so only JSON keeps them.
+export function exportRubricsCsv(rubrics: Rubric[]): string {
+  const rows = rubrics.flatMap(rubric =>
+    rubric.criteria.map(criterion => [rubric.name, rubric.subject, criterion.id, String(criterion.weight), criterion.description])
+  );
+  return [[...CSV_COLUMNS], ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+// Function to split CSV text into rows, handling quoted fields with commas, quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function readCsvRubrics(text: string): unknown[] {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(column => column !== 'criterion' && !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing the ${missing.join(', ')} column(s)`);
+  }
+
+  const rubrics = new Map<string, { name: string; subject: string; criteria: unknown[] }>();
+  rows.forEach((cells, index) => {
+    const cell = (column: typeof CSV_COLUMNS[number]) => (cells[columns.indexOf(column)] ?? '').trim();
+    const weight = Number(cell('weight'));
+    if (!cell('weight') || Number.isNaN(weight)) {
+      throw new Error(`Row ${index + 2} has no valid weight`);
+    }
+    const key = `${cell('rubric')}\u0000${cell('subject')}`;
+    if (!rubrics.has(key)) {
+      rubrics.set(key, { name: cell('rubric'), subject: cell('subject'), criteria: [] });
+    }
+    rubrics.get(key)!.criteria.push({
+      ...(cell('criterion') && { id: cell('criterion') }),
+      description: cell('description'),
+      weight
+    });
+  });
+
+  if (rubrics.size === 0) {
+    throw new Error('CSV has no criteria rows');
+  }
+  return Array.from(rubrics.values());
+}
+
+function readJsonRubrics(text: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > RUBRIC_EXPORT_VERSION) {
+    throw new Error(`File was exported by a newer version of FairGrade (format version ${version})`);
+  }
+  const parsed = rubricExportSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`File is not a FairGrade rubric export: ${describeIssue(parsed.error)}`);
+  }
+  return parsed.data.rubrics;
+}
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// Function to list what would stop a rubric from saving, using the same rules as the rubric editor
+function findProblems(rubric: Rubric): string[] {
+  const problems: string[] = [];
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight !== 100) {
+    problems.push(`Weights add up to ${totalWeight}%, not 100%`);
+  }
+  const ids = rubric.criteria.map(criterion => criterion.id);
+  if (new Set(ids).size !== ids.length) {
+    problems.push('Two criteria share the same id');
+  }
+  for (const criterion of rubric.criteria) {
+    const criterionError = validateWeight(criterion) ?? validateLevels(criterion);
+    if (criterionError) problems.push(criterionError);
+  }
+  return problems;
+}
+
+function toRubric(input: RubricInput, index: number): Rubric {
+  const stamp = Date.now();
+  const criteria: RubricCriterion[] = input.criteria.map((criterion, criterionIndex) => ({
+    id: criterion.id || `criterion-${stamp}-${criterionIndex}`,
+    description: criterion.description,
+    weight: criterion.weight,
+    ...(criterion.levels?.length && {
+      levels: criterion.levels.map((level, levelIndex) => ({
+        ...level,
+        id: level.id || `level-${stamp}-${criterionIndex}-${levelIndex}`
+      }))
+    })
+  }));
+
+  return {
+    id: input.id || `rubric-${stamp}-${index}`,
+    name: input.name,
+    subject: input.subject,
+    criteria,
+    content: '', // generated by saveRubric
+    createdAt: input.createdAt || new Date().toISOString(),
+    isTemplate: false
+  };
+}
+
+// Function to read an exported JSON or CSV file into rubrics ready for preview. Throws when the file
+// itself can't be read; problems with single rubrics are listed on each one instead.
+export function parseRubricImport(text: string, fileName: string): ImportedRubric[] {
+  const inputs = fileName.toLowerCase().endsWith('.csv') ? readCsvRubrics(text) : readJsonRubrics(text);
+
+  const seenIds = new Set<string>();
+
+  return inputs.map((input, index) => {
+    const parsed = rubricSchema.safeParse(input);
+    if (!parsed.success) {
+      const name = (input as { name?: string }).name || `Rubric ${index + 1}`;
+      return {
+        rubric: { id: `rubric-${Date.now()}-${index}`, name, subject: '', criteria: [], content: '', createdAt: new Date().toISOString() },
+        problems: [describeIssue(parsed.error)]
+      };
+    }
+    const rubric = toRubric(parsed.data, index);
+    const problems = findProblems(rubric);
+    if (seenIds.has(rubric.id)) {
+      problems.push('Another rubric in this file has the same id');
+    }
+    seenIds.add(rubric.id);
+    return { rubric, problems };
+  });
+}
+
+// Function to carry a rubric's graded examples over to its replacement, dropping scores for removed criteria
+function keptExamples(existing: Rubric, replacement: Rubric): Pick<Rubric, 'examples'> {
+  const criterionIds = new Set(replacement.criteria.map(criterion => criterion.id));
+  const examples = (existing.examples ?? [])
+    .map(example => ({ ...example, scores: example.scores.filter(score => criterionIds.has(score.criterionId)) }))
+    .filter(example => example.scores.length > 0);
+  return examples.length > 0 ? { examples } : {};
+}
+
+// Function to decide what an imported rubric is saved as. Replacing keeps the existing id, so the import
+// becomes that rubric's next version, and keeps the graded examples for criteria the import still has;
+// templates can't be replaced. Returns null when the rubric is skipped.
+export function resolveImportedRubric(
+  rubric: Rubric,
+  existing: Rubric | undefined,
+  resolution: RubricImportResolution
+): Rubric | null {
+  if (!existing) {
+    return rubric;
+  }
+  switch (resolution) {
+    case 'skip':
+      return null;
+    case 'replace':
+      if (existing.isTemplate) {
+        throw new Error(`"${existing.name}" is a template and can't be replaced`);
+      }
+      return { ...rubric, id: existing.id, createdAt: existing.createdAt, ...keptExamples(existing, rubric) };
+    case 'copy':
+      return {
+        ...rubric,
+        id: `rubric-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: `${rubric.name} (Imported)`,
+        createdAt: new Date().toISOString()
+      };
+  }
+}
@@ -0,0 +1,166 @@
+import type { GradingCriterion } from './grading';
+import {
+  copyCriteria,
+  formatRubricContent,
+  type Rubric,
+  type RubricCriterion,
+  type RubricLevel,
+  type RubricSnapshot
+} from './storage';
+
+export type RubricCriterionChange =
+  | { type: 'added'; criterion: RubricCriterion }
+  | { type: 'removed'; criterion: RubricCriterion }
+  | { type: 'reweighted'; criterion: RubricCriterion; previousWeight: number }
+  | { type: 'renamed'; criterion: RubricCriterion; previousDescription: string }
+  | { type: 'levels_changed'; criterion: RubricCriterion; previousLevels: RubricLevel[] };
+
+// Function to copy a stored rubric onto a session; criteria are copied so later edits to the rubric don't leak in
+export function snapshotRubric(rubric: Rubric): RubricSnapshot {
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    subject: rubric.subject,
+    version: rubric.version ?? 1,
+    criteria: copyCriteria(rubric.criteria),
+    ...(rubric.examples?.length && { examples: rubric.examples }),
+    content: rubric.content,
+    capturedAt: new Date().toISOString()
+  };
+}
+
+// Function to read "name (NN%)" lines. Only sessions saved before rubrics were stored as criteria need it.
+export function parseRubric(rubricText: string): Array<{name: string, weight: number}> {
+  return rubricText.split('\n')
+    .map(line => {
+      const match = line.match(/(.*?)\s*\((\d+)%\)/);
+      if (match) {
+        return {
+          name: match[1].trim(),
+          weight: parseInt(match[2], 10)
+        };
+      }
+      return null;
+    })
+    .filter((item): item is {name: string, weight: number} => item !== null);
+}
+
+// Function to snapshot criteria edited for one session only; the result no longer points at a stored rubric
+export function customizeSnapshot(snapshot: RubricSnapshot, criteria: RubricCriterion[]): RubricSnapshot {
+  return {
+    ...snapshot,
+    id: null,
+    name: snapshot.id === null ? snapshot.name : `${snapshot.name} (customized)`,
+    version: 1,
+    criteria: copyCriteria(criteria),
+    content: formatRubricContent(criteria),
+    capturedAt: new Date().toISOString()
+  };
+}
+
+// Function to snapshot a rubric that only exists as text, as older sessions kept it
+export function snapshotRubricText(rubricText: string, name: string, subject: string): RubricSnapshot {
+  return {
+    id: null,
+    name,
+    subject,
+    version: 1,
+    criteria: parseRubric(rubricText).map((criterion, index) => ({
+      id: `criterion-${index + 1}`,
+      description: criterion.name,
+      weight: criterion.weight
+    })),
+    content: rubricText,
+    capturedAt: new Date().toISOString()
+  };
+}
+
+// Function to turn a rubric's criteria into what the grading route scores; a criterion's weight is its maximum score.
+// Teacher-graded examples are split up so each criterion only sees its own scores.
+export function toGradingCriteria(rubric: Pick<RubricSnapshot, 'criteria' | 'examples'>): GradingCriterion[] {
+  return rubric.criteria.map(criterion => {
+    const examples = (rubric.examples ?? []).flatMap(example => {
+      const score = example.scores.find(entry => entry.criterionId === criterion.id);
+      return score ? [{ answer: example.answer, score: score.score, ...(score.feedback && { feedback: score.feedback }) }] : [];
+    });
+    return {
+      name: criterion.description,
+      maxScore: criterion.weight,
+      ...(criterion.levels?.length && {
+        levels: criterion.levels.map(({ id: _id, ...level }) => level)
+      }),
+      ...(examples.length > 0 && { examples })
+    };
+  });
+}
+
+// Function to match a rubric to a subject. The grading page uses ids such as "social" while rubrics
+// store labels such as "Social Studies", so only the first word is compared.
+export function isSubjectMatch(rubricSubject: string, subject: string): boolean {
+  const firstWord = (value: string) => value.trim().toLowerCase().split(/\s+/)[0];
+  return firstWord(rubricSubject) === firstWord(subject);
+}
+
+// Function to list criterion changes between two versions; criteria are matched by id, so a renamed
+// and reweighted criterion yields both changes
+export function diffRubricCriteria(before: RubricCriterion[], after: RubricCriterion[]): RubricCriterionChange[] {
+  const changes: RubricCriterionChange[] = [];
+
+  for (const criterion of after) {
+    const previous = before.find(existing => existing.id === criterion.id);
+    if (!previous) {
+      changes.push({ type: 'added', criterion });
+      continue;
+    }
+    if (previous.description !== criterion.description) {
+      changes.push({ type: 'renamed', criterion, previousDescription: previous.description });
+    }
+    if (previous.weight !== criterion.weight) {
+      changes.push({ type: 'reweighted', criterion, previousWeight: previous.weight });
+    }
+    if (JSON.stringify(previous.levels ?? []) !== JSON.stringify(criterion.levels ?? [])) {
+      changes.push({ type: 'levels_changed', criterion, previousLevels: previous.levels ?? [] });
+    }
+  }
+  for (const criterion of before) {
+    if (!after.some(existing => existing.id === criterion.id)) {
+      changes.push({ type: 'removed', criterion });
+    }
+  }
+
+  return changes;
+}
+
+// Function to suggest the usual four levels for a criterion, splitting its points from the top down
+export function createDefaultLevels(weight: number): RubricLevel[] {
+  const bound = (fraction: number) => Math.round(weight * fraction);
+  const levels = [
+    { name: 'Excellent', description: 'Complete and accurate, with clear reasoning throughout', minScore: bound(0.9), maxScore: weight },
+    { name: 'Proficient', description: 'Mostly accurate with minor gaps or errors', minScore: bound(0.7), maxScore: bound(0.9) - 1 },
+    { name: 'Developing', description: 'Partly correct, with significant gaps or errors', minScore: bound(0.5), maxScore: bound(0.7) - 1 },
+    { name: 'Beginning', description: 'Little evidence of the expected understanding', minScore: 0, maxScore: bound(0.5) - 1 }
+  ];
+  return levels.map((level, index) => ({
+    ...level,
+    id: `level-${Date.now()}-${index}`,
+    maxScore: Math.max(level.minScore, level.maxScore)
+  }));
+}
+
+// Function to check a criterion is worth some points; the grading route rejects criteria with no maximum score
+export function validateWeight(criterion: RubricCriterion): string | null {
+  return criterion.weight > 0 ? null : `"${criterion.description}" needs a weight above 0%`;
+}
+
+// Function to check a criterion's levels fit its weight; returns a message for the first problem found
+export function validateLevels(criterion: RubricCriterion): string | null {
+  for (const level of criterion.levels ?? []) {
+    if (!level.name.trim()) {
+      return `Every level of "${criterion.description}" needs a name`;
+    }
+    if (level.minScore < 0 || level.minScore > level.maxScore || level.maxScore > criterion.weight) {
+      return `Level "${level.name}" of "${criterion.description}" must cover points between 0 and ${criterion.weight}`;
+    }
+  }
+  return null;
+}
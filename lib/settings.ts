@@ -0,0 +1,66 @@
+import { ConsistencyOptions, GradingMode } from './grading';
+import { DEFAULT_PROVIDER_SETTINGS, ProviderSettings } from './providers';
+
+export interface GradingSettings extends ProviderSettings {
+  mode: GradingMode;
+  concurrency: number; // students graded at the same time
+  ocr: boolean; // extract answer text with Tesseract before grading
+  consistency: ConsistencySettings;
+}
+
+// Samples and threshold are kept while the check is off so turning it back on restores them
+export interface ConsistencySettings extends ConsistencyOptions {
+  enabled: boolean;
+}
+
+export const DEFAULT_GRADING_SETTINGS: GradingSettings = {
+  ...DEFAULT_PROVIDER_SETTINGS,
+  mode: 'combined',
+  concurrency: 2,
+  ocr: false,
+  consistency: {
+    enabled: false,
+    samples: 3,
+    threshold: 0.2
+  }
+};
+
+const GRADING_SETTINGS_KEY = 'fairgrade_grading_settings';
+
+function settingsKey(userId: string): string {
+  return `${GRADING_SETTINGS_KEY}_${userId}`;
+}
+
+// Grading settings are stored per user in localStorage, next to the auth data
+export function getGradingSettings(userId: string): GradingSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_GRADING_SETTINGS;
+  }
+
+  const stored = localStorage.getItem(settingsKey(userId));
+  if (!stored) {
+    return DEFAULT_GRADING_SETTINGS;
+  }
+
+  try {
+    // Only known fields are kept: settings saved before the OpenAI endpoint moved to the server
+    // still carry openaiBaseUrl and openaiModel, which the API routes now reject
+    const { provider, openaiSupportsImages, mode, concurrency, ocr, consistency } = {
+      ...DEFAULT_GRADING_SETTINGS,
+      ...JSON.parse(stored)
+    };
+    return { provider, openaiSupportsImages, mode, concurrency, ocr, consistency };
+  } catch (error) {
+    console.error('Error reading grading settings:', error);
+    return DEFAULT_GRADING_SETTINGS;
+  }
+}
+
+export function saveGradingSettings(userId: string, settings: GradingSettings): void {
+  localStorage.setItem(settingsKey(userId), JSON.stringify(settings));
+}
+
+// Function to pick the consistency options to grade with, or none when the check is off
+export function consistencyOptions({ enabled, samples, threshold }: ConsistencySettings): ConsistencyOptions | undefined {
+  return enabled ? { samples, threshold } : undefined;
+}
@@ -1,21 +1,52 @@
 import { openDB } from 'idb';
+import type { AuditEvent } from './audit';
+import type { CalibrationExemplar } from './calibration';
+import type { ExamDefinition } from './exams';
+import type { PerformanceLevel } from './grading';
+import type { GradingLanguage } from './languages';
 
-interface GradingSession {
+// Sessions are created as in_progress before grading starts; older sessions have no status.
+// cancelled sessions keep the students graded before the teacher stopped the batch.
+export type GradingSessionStatus = 'in_progress' | 'completed' | 'cancelled';
+
+export interface GradingSession {
   id: string;
   userId: string;
   subject: string;
   sessionName: string;
   studentFiles: string[]; // base64 strings
+  studentFileNames?: string[];
+  studentGroups?: number[][]; // indexes into studentFiles per student; older sessions have one file per student
   rubricFile: string | null; // base64 string
+  rubricText?: string; // only on sessions saved before the rubric snapshot; newer sessions keep just `rubric`
+  rubric?: RubricSnapshot; // the rubric as it was when the session was created; never updated afterwards
+  answerKeyFile?: string | null; // base64 string
   useTemplateRubric: boolean;
   results: any[];
+  status?: GradingSessionStatus;
+  language?: GradingLanguage; // sessions without one were graded in English
+  exam?: ExamDefinition; // question-by-question grading; absent for whole-paper sessions
   createdAt: string;
 }
 
+// Level points are on the criterion's own scale, from 0 up to its weight
+export interface RubricLevel extends PerformanceLevel {
+  id: string;
+}
+
 export interface RubricCriterion {
   id: string;
   description: string;
   weight: number;
+  levels?: RubricLevel[]; // best level first; criteria without levels are scored on points alone
+}
+
+// A teacher-graded answer attached to a rubric, shown to the model as a few-shot example when grading
+export interface RubricExample {
+  id: string; // calibration exemplar it was taken from
+  name: string;
+  answer: string;
+  scores: Array<{ criterionId: string; score: number; feedback?: string }>;
 }
 
 export interface Rubric {
@@ -24,15 +55,49 @@ export interface Rubric {
   subject: string;
   content: string;
   criteria: RubricCriterion[];
+  examples?: RubricExample[];
   createdAt: string;
   isTemplate?: boolean;
+  version?: number; // starts at 1; rubrics saved before versioning have none
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Every save of a rubric is kept as a version, so past states can be compared and restored
+export interface RubricVersion {
+  id: string; // `${rubricId}@v${version}`
+  rubricId: string;
+  version: number;
+  name: string;
+  subject: string;
+  criteria: RubricCriterion[];
+  examples?: RubricExample[];
+  content: string;
+  savedAt: string;
+  savedBy: string;
+  note?: string; // e.g. which version a rollback restored
+}
+
+// Copy of a rubric stored on a session, so editing or deleting the rubric later cannot change how it was scored
+export interface RubricSnapshot {
+  id: string | null; // rubric it was copied from; null when the rubric was only built for this session
+  name: string;
+  subject: string;
+  version: number;
+  criteria: RubricCriterion[];
+  examples?: RubricExample[];
+  content: string; // rubric text exactly as sent for grading
+  capturedAt: string;
 }
 
 const DB_NAME = 'fairgrade-db';
-const DB_VERSION = 2; // Increased version number to trigger upgrade
+const DB_VERSION = 5; // Increased version number to trigger upgrade
 const STORE_NAMES = {
   GRADING_SESSIONS: 'grading-sessions',
-  RUBRICS: 'rubrics'
+  RUBRICS: 'rubrics',
+  AUDIT_EVENTS: 'audit-events',
+  RUBRIC_VERSIONS: 'rubric-versions',
+  CALIBRATION_EXEMPLARS: 'calibration-exemplars'
 };
 
 let db: any = null;
@@ -48,6 +113,18 @@ async function initDB() {
         if (!db.objectStoreNames.contains(STORE_NAMES.RUBRICS)) {
           db.createObjectStore(STORE_NAMES.RUBRICS, { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains(STORE_NAMES.AUDIT_EVENTS)) {
+          const auditStore = db.createObjectStore(STORE_NAMES.AUDIT_EVENTS, { keyPath: 'id' });
+          auditStore.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(STORE_NAMES.RUBRIC_VERSIONS)) {
+          const versionStore = db.createObjectStore(STORE_NAMES.RUBRIC_VERSIONS, { keyPath: 'id' });
+          versionStore.createIndex('rubricId', 'rubricId');
+        }
+        if (!db.objectStoreNames.contains(STORE_NAMES.CALIBRATION_EXEMPLARS)) {
+          const exemplarStore = db.createObjectStore(STORE_NAMES.CALIBRATION_EXEMPLARS, { keyPath: 'id' });
+          exemplarStore.createIndex('rubricId', 'rubricId');
+        }
       },
     });
   }
@@ -63,13 +140,78 @@ async function ensureDB() {
   return database;
 }
 
+// Function to deep-copy criteria, so stored versions never share level arrays with the live rubric
+export function copyCriteria(criteria: RubricCriterion[]): RubricCriterion[] {
+  return criteria.map(criterion => ({
+    ...criterion,
+    ...(criterion.levels && { levels: criterion.levels.map(level => ({ ...level })) })
+  }));
+}
+
+function toRubricVersion(rubric: Rubric, version: number, savedAt: string, savedBy: string, note?: string): RubricVersion {
+  return {
+    id: `${rubric.id}@v${version}`,
+    rubricId: rubric.id,
+    version,
+    name: rubric.name,
+    subject: rubric.subject,
+    criteria: copyCriteria(rubric.criteria),
+    ...(rubric.examples && { examples: rubric.examples }),
+    content: formatRubricContent(rubric.criteria),
+    savedAt,
+    savedBy,
+    ...(note && { note })
+  };
+}
+
 // Rubric Storage Functions
-export async function saveRubric(rubric: Rubric): Promise<void> {
+// Each save becomes a new version; the rubric record always holds the latest one
+export async function saveRubric(rubric: Rubric, author: string = 'Unknown', note?: string): Promise<Rubric> {
   const db = await ensureDB();
-  await db.put(STORE_NAMES.RUBRICS, {
+  const tx = db.transaction([STORE_NAMES.RUBRICS, STORE_NAMES.RUBRIC_VERSIONS], 'readwrite');
+  const existing: Rubric | undefined = await tx.objectStore(STORE_NAMES.RUBRICS).get(rubric.id);
+  const versions = tx.objectStore(STORE_NAMES.RUBRIC_VERSIONS);
+
+  // Rubrics saved before versioning existed become version 1, so their original criteria aren't lost
+  if (existing && existing.version === undefined) {
+    await versions.put(toRubricVersion(existing, 1, existing.createdAt, existing.updatedBy ?? 'Unknown'));
+  }
+
+  const version = existing ? (existing.version ?? 1) + 1 : 1;
+  const savedAt = new Date().toISOString();
+  const saved: Rubric = {
     ...rubric,
-    content: formatRubricContent(rubric.criteria)
-  });
+    content: formatRubricContent(rubric.criteria),
+    version,
+    updatedAt: savedAt,
+    updatedBy: author
+  };
+  await tx.objectStore(STORE_NAMES.RUBRICS).put(saved);
+  await versions.put(toRubricVersion(saved, version, savedAt, author, note));
+  await tx.done;
+  return saved;
+}
+
+// Newest version first
+export async function getRubricVersions(rubricId: string): Promise<RubricVersion[]> {
+  const db = await ensureDB();
+  const versions: RubricVersion[] = await db.getAllFromIndex(STORE_NAMES.RUBRIC_VERSIONS, 'rubricId', rubricId);
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+// Rolling back saves the old criteria as a new version, so the history itself is never rewritten
+export async function rollbackRubric(rubricId: string, version: number, author: string = 'Unknown'): Promise<Rubric> {
+  const db = await ensureDB();
+  const current: Rubric | undefined = await db.get(STORE_NAMES.RUBRICS, rubricId);
+  const target: RubricVersion | undefined = await db.get(STORE_NAMES.RUBRIC_VERSIONS, `${rubricId}@v${version}`);
+  if (!current || !target) {
+    throw new Error('Rubric version not found');
+  }
+  return saveRubric(
+    { ...current, name: target.name, subject: target.subject, criteria: target.criteria, examples: target.examples },
+    author,
+    `Restored version ${version}`
+  );
 }
 
 export async function getAllRubrics(): Promise<Rubric[]> {
@@ -77,6 +219,11 @@ export async function getAllRubrics(): Promise<Rubric[]> {
   return db.getAll(STORE_NAMES.RUBRICS);
 }
 
+export async function getRubric(id: string): Promise<Rubric | undefined> {
+  const db = await ensureDB();
+  return db.get(STORE_NAMES.RUBRICS, id);
+}
+
 export async function getRubricsBySubject(subject: string): Promise<Rubric[]> {
   const rubrics = await getAllRubrics();
   return rubrics.filter(rubric => rubric.subject === subject);
@@ -84,80 +231,211 @@ export async function getRubricsBySubject(subject: string): Promise<Rubric[]> {
 
 export async function deleteRubric(id: string): Promise<void> {
   const db = await ensureDB();
-  await db.delete(STORE_NAMES.RUBRICS, id);
+  const tx = db.transaction(
+    [STORE_NAMES.RUBRICS, STORE_NAMES.RUBRIC_VERSIONS, STORE_NAMES.CALIBRATION_EXEMPLARS],
+    'readwrite'
+  );
+  await tx.objectStore(STORE_NAMES.RUBRICS).delete(id);
+  // Versions and calibration exemplars only mean something for their rubric
+  for (const storeName of [STORE_NAMES.RUBRIC_VERSIONS, STORE_NAMES.CALIBRATION_EXEMPLARS]) {
+    const store = tx.objectStore(storeName);
+    const keys = await store.index('rubricId').getAllKeys(id);
+    await Promise.all(keys.map((key: IDBValidKey) => store.delete(key)));
+  }
+  await tx.done;
+}
+
+// Calibration Exemplar Storage Functions
+export async function saveCalibrationExemplar(exemplar: CalibrationExemplar): Promise<void> {
+  const db = await ensureDB();
+  await db.put(STORE_NAMES.CALIBRATION_EXEMPLARS, exemplar);
+}
+
+// Oldest first, so exemplars keep the order the teacher added them in
+export async function getCalibrationExemplars(rubricId: string): Promise<CalibrationExemplar[]> {
+  const db = await ensureDB();
+  const exemplars: CalibrationExemplar[] = await db.getAllFromIndex(STORE_NAMES.CALIBRATION_EXEMPLARS, 'rubricId', rubricId);
+  return exemplars.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 }
 
-function formatRubricContent(criteria: RubricCriterion[]): string {
+export async function deleteCalibrationExemplar(id: string): Promise<void> {
+  const db = await ensureDB();
+  await db.delete(STORE_NAMES.CALIBRATION_EXEMPLARS, id);
+}
+
+export function formatRubricContent(criteria: RubricCriterion[]): string {
   return criteria
     .map((criterion, index) => `${index + 1}. ${criterion.description} (${criterion.weight}%)`)
     .join('\n');
 }
 
-// Initialize with default rubrics if none exist
+// Adds any built-in template the store doesn't have yet, so templates added later reach existing users too
 export async function initializeDefaultRubrics() {
   const db = await ensureDB();
-  const existingRubrics = await db.getAll(STORE_NAMES.RUBRICS);
-  
-  if (existingRubrics.length === 0) {
-    const defaultRubrics: Rubric[] = [
-      {
-        id: "rubric-1",
-        name: "Basic Mathematics Rubric",
-        subject: "Math",
-        createdAt: new Date().toISOString(),
-        criteria: [
-          { id: "m1", description: "Correct answer", weight: 50 },
-          { id: "m2", description: "Proper working/steps", weight: 30 },
-          { id: "m3", description: "Mathematical notation", weight: 10 },
-          { id: "m4", description: "Clarity and organization", weight: 10 }
-        ],
-        content: "",
-        isTemplate: true
-      },
-      {
-        id: "rubric-2",
-        name: "Advanced Physics Rubric",
-        subject: "Physics",
-        createdAt: new Date().toISOString(),
-        criteria: [
-          { id: "p1", description: "Correct solution", weight: 40 },
-          { id: "p2", description: "Application of physics principles", weight: 25 },
-          { id: "p3", description: "Mathematical working", weight: 20 },
-          { id: "p4", description: "Units and dimensions", weight: 15 }
-        ],
-        content: "",
-        isTemplate: true
-      },
-      {
-        id: "rubric-3",
-        name: "Essay Writing Rubric",
-        subject: "English",
-        createdAt: new Date().toISOString(),
-        criteria: [
-          { id: "e1", description: "Thesis and argument development", weight: 30 },
-          { id: "e2", description: "Evidence and supporting details", weight: 25 },
-          { id: "e3", description: "Organization and structure", weight: 20 },
-          { id: "e4", description: "Grammar and mechanics", weight: 15 },
-          { id: "e5", description: "Style and voice", weight: 10 }
-        ],
-        content: "",
-        isTemplate: true
-      }
-    ];
-
-    for (const rubric of defaultRubrics) {
-      rubric.content = formatRubricContent(rubric.criteria);
-      await db.add(STORE_NAMES.RUBRICS, rubric);
+  const existingIds: string[] = await db.getAllKeys(STORE_NAMES.RUBRICS);
+
+  const defaultRubrics: Rubric[] = [
+    {
+      id: "rubric-1",
+      name: "Basic Mathematics Rubric",
+      subject: "Math",
+      createdAt: new Date().toISOString(),
+      criteria: [
+        { id: "m1", description: "Correct answer", weight: 50 },
+        { id: "m2", description: "Proper working/steps", weight: 30 },
+        { id: "m3", description: "Mathematical notation", weight: 10 },
+        { id: "m4", description: "Clarity and organization", weight: 10 }
+      ],
+      content: "",
+      isTemplate: true
+    },
+    {
+      id: "rubric-2",
+      name: "Advanced Physics Rubric",
+      subject: "Physics",
+      createdAt: new Date().toISOString(),
+      criteria: [
+        { id: "p1", description: "Correct solution", weight: 40 },
+        { id: "p2", description: "Application of physics principles", weight: 25 },
+        { id: "p3", description: "Mathematical working", weight: 20 },
+        { id: "p4", description: "Units and dimensions", weight: 15 }
+      ],
+      content: "",
+      isTemplate: true
+    },
+    {
+      id: "rubric-3",
+      name: "Essay Writing Rubric",
+      subject: "English",
+      createdAt: new Date().toISOString(),
+      criteria: [
+        { id: "e1", description: "Thesis and argument development", weight: 30 },
+        { id: "e2", description: "Evidence and supporting details", weight: 25 },
+        { id: "e3", description: "Organization and structure", weight: 20 },
+        { id: "e4", description: "Grammar and mechanics", weight: 15 },
+        { id: "e5", description: "Style and voice", weight: 10 }
+      ],
+      content: "",
+      isTemplate: true
+    },
+    template("rubric-math-advanced", "Advanced Mathematics Rubric", "Math", [
+      ["Correct solution/proof", 40],
+      ["Mathematical reasoning", 30],
+      ["Proper notation and terminology", 15],
+      ["Organization and clarity", 15]
+    ]),
+    template("rubric-physics-basic", "Basic Physics Rubric", "Physics", [
+      ["Correct answer with units", 40],
+      ["Proper application of formulas", 25],
+      ["Physical reasoning and explanations", 25],
+      ["Diagrams and visual representations", 10]
+    ]),
+    template("rubric-physics-lab", "Physics Lab Report Rubric", "Physics", [
+      ["Experimental procedure", 20],
+      ["Data collection and analysis", 30],
+      ["Results and calculations", 30],
+      ["Discussion and conclusion", 20]
+    ]),
+    template("rubric-biology-basic", "General Biology Rubric", "Biology", [
+      ["Factual accuracy", 40],
+      ["Use of biological terminology", 20],
+      ["Depth of explanation", 30],
+      ["Organization and clarity", 10]
+    ]),
+    template("rubric-biology-advanced", "Advanced Biology Rubric", "Biology", [
+      ["Scientific accuracy", 35],
+      ["Depth of analysis", 25],
+      ["Application of concepts", 25],
+      ["Scientific communication", 15]
+    ]),
+    template("rubric-chemistry-basic", "Basic Chemistry Rubric", "Chemistry", [
+      ["Correct answers with units", 40],
+      ["Chemical equations and formulas", 25],
+      ["Conceptual understanding", 25],
+      ["Organization and presentation", 10]
+    ]),
+    template("rubric-chemistry-advanced", "Advanced Chemistry Rubric", "Chemistry", [
+      ["Chemical accuracy", 35],
+      ["Problem-solving approach", 25],
+      ["Application of chemical principles", 25],
+      ["Scientific communication", 15]
+    ]),
+    template("rubric-english-literature", "Literature Analysis Rubric", "English", [
+      ["Textual understanding", 25],
+      ["Analysis of literary elements", 30],
+      ["Use of evidence from text", 25],
+      ["Writing clarity and organization", 20]
+    ]),
+    template("rubric-social-essay", "Social Studies Essay Rubric", "Social Studies", [
+      ["Historical/social understanding", 30],
+      ["Use of evidence and examples", 25],
+      ["Analysis and critical thinking", 25],
+      ["Organization and clarity", 20]
+    ]),
+    template("rubric-social-document", "Document Analysis Rubric", "Social Studies", [
+      ["Source contextualization", 25],
+      ["Comprehension of content", 25],
+      ["Analysis of perspective and bias", 30],
+      ["Connection to historical/social concepts", 20]
+    ]),
+    template("rubric-general", "General Rubric", "Other", [
+      ["Content understanding", 40],
+      ["Analysis and reasoning", 30],
+      ["Organization", 20],
+      ["Presentation", 10]
+    ])
+  ];
+
+  for (const rubric of defaultRubrics) {
+    if (!existingIds.includes(rubric.id)) {
+      await saveRubric(rubric, 'FairGrade');
     }
   }
 }
 
+// Built-in templates only need criterion names and weights
+function template(id: string, name: string, subject: string, criteria: Array<[string, number]>): Rubric {
+  return {
+    id,
+    name,
+    subject,
+    createdAt: new Date().toISOString(),
+    criteria: criteria.map(([description, weight], index) => ({ id: `${id}-c${index + 1}`, description, weight })),
+    content: "",
+    isTemplate: true
+  };
+}
+
 // Grading Session Storage Functions
 export async function saveGradingSession(session: GradingSession): Promise<void> {
     const db = await initDB();
   await db.put('grading-sessions', session);
 }
 
+// Appends one student's result as soon as it is graded, so a closed tab loses at most the students in flight
+export async function saveStudentResult(sessionId: string, result: { fileIndex?: number }): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('grading-sessions', 'readwrite');
+  const session: GradingSession | undefined = await tx.store.get(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  const results = session.results.filter(existing => existing.fileIndex !== result.fileIndex);
+  await tx.store.put({ ...session, results: [...results, result] });
+  await tx.done;
+}
+
+export async function updateGradingSessionStatus(sessionId: string, status: GradingSessionStatus): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('grading-sessions', 'readwrite');
+  const session: GradingSession | undefined = await tx.store.get(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  await tx.store.put({ ...session, status });
+  await tx.done;
+}
+
 export async function getGradingSession(id: string): Promise<GradingSession | undefined> {
       const db = await initDB();
   return db.get('grading-sessions', id);
@@ -187,6 +465,29 @@ export async function deleteGradingSession(id: string, userId?: string): Promise
   } else {
     await db.delete('grading-sessions', id);
   }
+  await deleteAuditEvents(id);
+}
+
+// Audit Log Storage Functions
+// Events are only ever added, never updated, so a session's history cannot be rewritten
+export async function appendAuditEvent(event: AuditEvent): Promise<void> {
+  const db = await initDB();
+  await db.add(STORE_NAMES.AUDIT_EVENTS, event);
+}
+
+export async function getAuditEvents(sessionId: string): Promise<AuditEvent[]> {
+  const db = await initDB();
+  const events: AuditEvent[] = await db.getAllFromIndex(STORE_NAMES.AUDIT_EVENTS, 'sessionId', sessionId);
+  return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// The log goes with its session; nothing else removes events
+async function deleteAuditEvents(sessionId: string): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction(STORE_NAMES.AUDIT_EVENTS, 'readwrite');
+  const keys = await tx.store.index('sessionId').getAllKeys(sessionId);
+  await Promise.all(keys.map((key: IDBValidKey) => tx.store.delete(key)));
+  await tx.done;
 }
 
 // Function to convert File to base64
@@ -0,0 +1,64 @@
+// A submission is everything one student handed in: one or more image or PDF files, in page order
+export interface StudentSubmission {
+  name: string;
+  files: File[];
+}
+
+// Groups are lists of indexes into the uploaded files, so they can be stored next to the base64 files
+export type FileGroups = number[][];
+
+// Matches names like alice_p1, alice-page-2 or "alice pg3"; the page marker is required so
+// student1.jpg and student2.jpg stay separate students
+const PAGE_FILE_NAME = /^(.+?)[\s_-]+(?:p|pg|page)[\s_-]?(\d+)$/i;
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^/.]+$/, '');
+}
+
+// Function to read the student name and page number out of a file name
+export function parsePageFileName(fileName: string): { student: string; page: number } | null {
+  const match = stripExtension(fileName).match(PAGE_FILE_NAME);
+  if (!match) {
+    return null;
+  }
+  return { student: match[1].trim(), page: parseInt(match[2], 10) };
+}
+
+// Function to derive a display name for a submission from its first file
+export function submissionName(files: File[]): string {
+  if (files.length === 0) {
+    return '';
+  }
+  return parsePageFileName(files[0].name)?.student ?? stripExtension(files[0].name);
+}
+
+// Function to group files by filename pattern, keeping first-seen student order and sorting pages
+export function groupFilesByName(files: File[], offset: number = 0): FileGroups {
+  const groups = new Map<string, Array<{ index: number; page: number }>>();
+
+  files.forEach((file, index) => {
+    const parsed = parsePageFileName(file.name);
+    // Files without a page marker are keyed by their position so they never merge
+    const key = parsed ? `name:${parsed.student.toLowerCase()}` : `file:${index}`;
+    const group = groups.get(key) ?? [];
+    group.push({ index: index + offset, page: parsed?.page ?? 0 });
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).map(group =>
+    group.sort((a, b) => a.page - b.page).map(item => item.index)
+  );
+}
+
+// Function to treat every file as its own student, as sessions did before grouping existed
+export function singleFileGroups(fileCount: number): FileGroups {
+  return Array.from({ length: fileCount }, (_, index) => [index]);
+}
+
+// Function to resolve stored groups against the uploaded files
+export function toSubmissions(files: File[], groups: FileGroups = singleFileGroups(files.length)): StudentSubmission[] {
+  return groups
+    .map(group => group.map(index => files[index]).filter((file): file is File => !!file))
+    .filter(group => group.length > 0)
+    .map(group => ({ name: submissionName(group), files: group }));
+}
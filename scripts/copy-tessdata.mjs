@@ -0,0 +1,17 @@
+// Copies the OCR language models from the @tesseract.js-data packages into public/tessdata,
+// where initializeOCR loads them from. Runs before `dev` and `build`.
+import { copyFile, mkdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+const LANGUAGES = ['eng', 'tha'];
+const target = path.join(process.cwd(), 'public', 'tessdata');
+
+await mkdir(target, { recursive: true });
+for (const language of LANGUAGES) {
+  const packageDir = path.dirname(require.resolve(`@tesseract.js-data/${language}/package.json`));
+  const file = `${language}.traineddata.gz`;
+  await copyFile(path.join(packageDir, '4.0.0', file), path.join(target, file));
+  console.log(`Copied ${file} to public/tessdata`);
+}